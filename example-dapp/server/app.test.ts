@@ -0,0 +1,259 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { SolanaSignInInput } from '@solana/wallet-standard-features';
+
+import { MockWallet, MockWalletBehavior } from '../src/mocks/MockWallet';
+import { SerializedSignInOutput } from '../src/types';
+import { serializeSignInOutput } from '../src/utils/serializeSignInOutput';
+
+import createApp from './app';
+import { ServerConfig } from './config';
+import { createSiws } from './middleware';
+import { requireSiwsSession } from './middleware/http';
+import { SessionManager } from './sessions';
+import { MemoryStore, NonceStore, SessionRecord } from './stores';
+
+const config: ServerConfig = {
+  port: 0,
+  domain: 'localhost:3000',
+  uri: 'http://localhost:3000',
+  chainId: 'solana:devnet',
+  resources: [],
+  nonceTtl: 5 * 60 * 1000,
+  maxNonceAge: 5 * 60 * 1000,
+  sweepInterval: 60 * 1000,
+  maxDelegationTtl: 60 * 60 * 1000,
+  maxRequestAge: 60 * 1000,
+  sessionSecret: 'secret',
+  sessionTtl: 60 * 60 * 1000,
+};
+
+interface TestResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+/** Starts a server on a free port, resolving to its base URL */
+const listen = (server: http.Server): Promise<string> => {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+  });
+};
+
+const close = (server: http.Server): Promise<void> => {
+  return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+};
+
+const request = (
+  url: string,
+  { method = 'GET', headers = {}, body }: { method?: string; headers?: http.OutgoingHttpHeaders; body?: string } = {}
+): Promise<TestResponse> => {
+  return new Promise((resolve, reject) => {
+    const req = http.request(url, { method, headers }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk) => chunks.push(chunk));
+      res.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf8');
+        resolve({ status: res.statusCode ?? 0, headers: res.headers, body: text ? JSON.parse(text) : undefined });
+      });
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+};
+
+const post = (url: string, body: unknown) => {
+  return request(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+};
+
+const signIn = async (
+  input: SolanaSignInInput,
+  behavior: MockWalletBehavior = 'approve'
+): Promise<SerializedSignInOutput> => {
+  const [output] = await new MockWallet({ behavior }).features['solana:signIn'].signIn(input);
+  return serializeSignInOutput(output);
+};
+
+describe('createApp', () => {
+  let store: NonceStore;
+  let sessions: SessionManager;
+  let server: http.Server;
+  let base: string;
+
+  beforeEach(async () => {
+    store = new MemoryStore();
+    sessions = new SessionManager(config.sessionSecret, config.sessionTtl);
+    server = createApp({ store, sessions, config });
+    base = await listen(server);
+  });
+
+  afterEach(() => close(server));
+
+  it('issues a sign-in input with a nonce it keeps', async () => {
+    const { status, headers, body } = await request(`${base}/api/signin`);
+
+    expect(status).toBe(200);
+    expect(headers['access-control-allow-origin']).toBe('http://localhost:3000');
+    expect(body).toMatchObject({ domain: 'localhost:3000', uri: 'http://localhost:3000', chainId: 'solana:devnet' });
+    expect(await store.get(body.nonce)).toMatchObject({ nonce: body.nonce, domain: 'localhost:3000' });
+  });
+
+  it('verifies a sign-in and sets the session cookie', async () => {
+    const input = (await request(`${base}/api/signin`)).body;
+    const { status, headers, body } = await post(`${base}/api/verify`, { output: await signIn(input) });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ verified: true, session: { chainId: 'solana:devnet' } });
+    expect(headers['set-cookie']).toEqual([
+      expect.stringMatching(/^siws_session=[\w.-]+; Max-Age=\d+; Path=\/; HttpOnly; SameSite=Lax$/),
+    ]);
+    expect(await sessions.verify(body.session.token)).toMatchObject({ sub: body.address });
+  });
+
+  describe('rejects', () => {
+    it('a body without an output', async () => {
+      expect(await post(`${base}/api/verify`, {})).toMatchObject({
+        status: 400,
+        body: { verified: false, error: 'Missing or malformed sign-in output' },
+      });
+    });
+
+    it('a malformed JSON body', async () => {
+      const response = await request(`${base}/api/verify`, { method: 'POST', body: '{"output":' });
+
+      expect(response).toMatchObject({ status: 400, body: { error: 'Malformed JSON body' } });
+    });
+
+    it('a body over the size limit', async () => {
+      const response = await post(`${base}/api/verify`, { output: 'x'.repeat(200 * 1024) });
+
+      expect(response.status).toBe(413);
+    });
+
+    it('a replayed sign-in, without a cookie', async () => {
+      const output = await signIn((await request(`${base}/api/signin`)).body);
+      await post(`${base}/api/verify`, { output });
+      const { status, headers, body } = await post(`${base}/api/verify`, { output });
+
+      expect(status).toBe(401);
+      expect(body).toEqual({ verified: false, error: 'Nonce is unknown, has expired or has already been used' });
+      expect(headers['set-cookie']).toBeUndefined();
+    });
+
+    it('a sign-in signed by another key', async () => {
+      const output = await signIn((await request(`${base}/api/signin`)).body, 'wrongKey');
+
+      expect(await post(`${base}/api/verify`, { output })).toMatchObject({
+        status: 401,
+        body: { verified: false, error: 'Sign In verification failed!' },
+      });
+    });
+
+    it('a sign-in whose message the wallet altered', async () => {
+      const output = await signIn((await request(`${base}/api/signin`)).body, 'alterDomain');
+      const { status, body } = await post(`${base}/api/verify`, { output });
+
+      expect(status).toBe(401);
+      expect(body.verified).toBe(false);
+    });
+
+    it.each<[string, (output: SerializedSignInOutput) => unknown]>([
+      ['without an account', (output) => ({ ...output, account: undefined })],
+      ['with a public key that is a number', (output) => ({ ...output, account: { publicKey: 42 } })],
+    ])('a sign-in output %s', async (_, malform) => {
+      const output = await signIn((await request(`${base}/api/signin`)).body);
+
+      expect(await post(`${base}/api/verify`, { output: malform(output) })).toMatchObject({
+        status: 400,
+        body: { verified: false, error: 'Missing or malformed sign-in output' },
+      });
+    });
+
+    it('a sign-in output whose signature is not base58', async () => {
+      const output = await signIn((await request(`${base}/api/signin`)).body);
+      const { status, body } = await post(`${base}/api/verify`, { output: { ...output, signature: '0OIl' } });
+
+      expect(status).toBe(401);
+      expect(body).toEqual({ verified: false, error: expect.stringMatching(/^Sign-in output is malformed: /) });
+    });
+
+    it('a malformed sign-in transaction', async () => {
+      expect(await post(`${base}/api/verify-transaction`, { transaction: 'not-a-transaction' })).toMatchObject({
+        status: 401,
+        body: { verified: false },
+      });
+    });
+
+    it('an unknown route', async () => {
+      expect(await request(`${base}/api/unknown`)).toMatchObject({ status: 404, body: { error: 'Not found' } });
+    });
+  });
+});
+
+describe('requireSiwsSession', () => {
+  const capability = { service: 'https://example.com', permission: 'post:comments' };
+  let sessionStore: MemoryStore<SessionRecord>;
+  let sessions: SessionManager;
+  let server: http.Server;
+  let base: string;
+
+  const identity = (capabilities: Record<string, string[]>) => ({
+    address: 'address',
+    chainId: 'solana:devnet',
+    capabilities,
+  });
+  const bearer = (token: string) => ({ headers: { Authorization: `Bearer ${token}` } });
+
+  beforeEach(async () => {
+    sessionStore = new MemoryStore();
+    sessions = new SessionManager(config.sessionSecret, config.sessionTtl, sessionStore);
+    const siws = createSiws({ store: new MemoryStore(), sessions, config });
+    const listener = requireSiwsSession(
+      siws,
+      (req, res, claims) => {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ address: claims.sub }));
+      },
+      capability
+    );
+    server = http.createServer(listener);
+    base = await listen(server);
+  });
+
+  afterEach(() => close(server));
+
+  it('answers a request without a session with a 401', async () => {
+    expect(await request(base)).toMatchObject({ status: 401, body: { error: 'Invalid or expired session' } });
+  });
+
+  it('answers a session without the capability with a 403', async () => {
+    const { token } = await sessions.issue(identity({ 'https://example.com': ['read:profile'] }));
+
+    expect(await request(base, bearer(token))).toMatchObject({
+      status: 403,
+      body: { error: 'Session was not granted post:comments on https://example.com' },
+    });
+  });
+
+  it('passes a session with the capability on to the listener', async () => {
+    const { token } = await sessions.issue(identity({ 'https://example.com': ['post:comments'] }));
+
+    expect(await request(base, bearer(token))).toMatchObject({ status: 200, body: { address: 'address' } });
+  });
+
+  it('answers with a 500 when the session cannot be checked', async () => {
+    const { token } = await sessions.issue(identity({}));
+    jest.spyOn(sessionStore, 'get').mockRejectedValue(new Error('Store unavailable'));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await request(base, bearer(token))).toMatchObject({ status: 500, body: { error: 'Store unavailable' } });
+  });
+});
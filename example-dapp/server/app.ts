@@ -0,0 +1,47 @@
+import http from 'http';
+
+import { ServerConfig } from './config';
+import { createSiws, jsonResponse, SiwsOptions } from './middleware';
+import { createSiwsHandler, sendResponse } from './middleware/http';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+/** The stores and services of the sign-in routes, see `SiwsOptions`, and the server configuration */
+export type AppOptions = Omit<SiwsOptions, 'config' | 'cookie' | 'basePath'> & { config: ServerConfig };
+
+// =============================================================================
+// Server
+// =============================================================================
+
+/**
+ * Creates the sign-in server without binding it to a port
+ * @param   {AppOptions}  options the nonce store, session manager, optional stores and account fetcher, and config
+ * @returns {http.Server}         an http server
+ */
+const createApp = (options: AppOptions): http.Server => {
+  const { config } = options;
+  // Browsers only accept a secure session cookie over https, except on localhost
+  const cookie = { secure: new URL(config.uri).protocol === 'https:' };
+  const siws = createSiws({ ...options, cookie });
+  const handleSiws = createSiwsHandler(siws);
+
+  return http.createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', new URL(config.uri).origin);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    if (await handleSiws(req, res)) return;
+
+    sendResponse(res, jsonResponse(404, { error: 'Not found' }));
+  });
+};
+
+export default createApp;
@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+
+import { Capabilities } from '../src/types';
+import { isCapabilities } from '../src/utils/capabilities';
+import { CLUSTER } from '../src/utils/cluster';
+import { Duration, parseDuration } from '../src/utils/createSignInInput';
+
+import { SQUADS_PERMISSIONS } from './multisig';
+
+// =============================================================================
+// Server Configuration
+// =============================================================================
+
+export interface ServerConfig {
+  port: number;
+  /** Host the dApp is served from; every issued nonce is bound to it */
+  domain: string;
+  /** Origin of the dApp, used as the sign-in URI and for CORS */
+  uri: string;
+  chainId: string;
+  /** Falls back to the default statement of `createSignInInput` */
+  statement?: string;
+  resources: string[];
+  /** Permissions every sign-in grants, encoded as a ReCap resource and rendered in the statement */
+  capabilities?: Capabilities;
+  /** Permissions a member must have to sign in for a Squads vault, a bit mask of `SQUADS_PERMISSIONS` */
+  multisigPermissions?: number;
+  /** How long an issued nonce, and the sign-in carrying it, stays valid, in milliseconds */
+  nonceTtl: number;
+  /** How old a nonce may be when it is verified, in milliseconds; may be stricter than `nonceTtl` */
+  maxNonceAge: number;
+  /** When set, nonces are persisted to this JSON file instead of memory */
+  nonceStorePath?: string;
+  /** When set, sessions are persisted to this JSON file instead of memory */
+  sessionStorePath?: string;
+  /** When set, nonces and sessions are kept in this Redis instead, shared by every server process */
+  redisUrl?: string;
+  /** How often expired nonces and sessions are swept out of the stores, in milliseconds */
+  sweepInterval: number;
+  /** How long a session key may act for the wallet at most, in milliseconds */
+  maxDelegationTtl: number;
+  /** How far the time a delegated request was signed may be from now, in milliseconds */
+  maxRequestAge: number;
+  /** Secret session tokens are signed with */
+  sessionSecret: string;
+  /** How long a session lasts before it must be refreshed, in milliseconds */
+  sessionTtl: number;
+}
+
+/** The part of the configuration sign-in inputs are issued and verified with */
+export type SignInConfig = Pick<
+  ServerConfig,
+  | 'domain'
+  | 'uri'
+  | 'chainId'
+  | 'statement'
+  | 'resources'
+  | 'capabilities'
+  | 'multisigPermissions'
+  | 'nonceTtl'
+  | 'maxNonceAge'
+  | 'maxDelegationTtl'
+  | 'maxRequestAge'
+>;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Reads a duration from the environment; a malformed one stops the server, rather than failing every sign-in
+ * @param   {String}   name     the variable, e.g. `SIWS_EXPIRES_IN`
+ * @param   {Duration} fallback the duration when the variable is not set
+ * @returns {Number}            the duration in milliseconds
+ * @throws  {Error} if the duration is malformed or not positive
+ */
+const durationFromEnv = (name: string, fallback: Duration): number => {
+  const value = process.env[name] || fallback;
+  const duration = parseDuration(value);
+  if (!(duration > 0)) throw new Error(`${name} must be a positive duration such as 30s, 5m or 1h, not "${value}"`);
+  return duration;
+};
+
+/**
+ * Reads a comma-separated list from the environment, without blank entries
+ * @param   {String}   name     the variable, e.g. `SIWS_RESOURCES`
+ * @param   {String[]} fallback the list when the variable is not set
+ * @returns {String[]}          the trimmed entries
+ */
+const listFromEnv = (name: string, fallback: string[]): string[] => {
+  const value = process.env[name];
+  if (value === undefined) return fallback;
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+};
+
+/**
+ * Reads a comma-separated list of Squads permissions from the environment
+ * @param   {String}   name     the variable, e.g. `SIWS_MULTISIG_PERMISSIONS`
+ * @param   {String[]} fallback the permissions when the variable is not set
+ * @returns {Number}            the permissions as a bit mask of `SQUADS_PERMISSIONS`
+ * @throws  {Error} if a permission is unknown
+ */
+const permissionsFromEnv = (name: string, fallback: (keyof typeof SQUADS_PERMISSIONS)[]): number => {
+  return listFromEnv(name, fallback).reduce((mask, permission) => {
+    if (!(permission in SQUADS_PERMISSIONS)) {
+      const known = Object.keys(SQUADS_PERMISSIONS).join(', ');
+      throw new Error(`${name} must only list the Squads permissions ${known}, not "${permission}"`);
+    }
+    return mask | SQUADS_PERMISSIONS[permission as keyof typeof SQUADS_PERMISSIONS];
+  }, 0);
+};
+
+/**
+ * Reads capabilities from the environment, as JSON mapping service URIs to permissions
+ * @param   {String}       name     the variable, e.g. `SIWS_CAPABILITIES`
+ * @param   {Capabilities} fallback the capabilities when the variable is not set
+ * @returns {Capabilities}          the capabilities every sign-in grants
+ * @throws  {Error} if the JSON is malformed or does not map service URIs to permissions such as `read:profile`
+ */
+const capabilitiesFromEnv = (name: string, fallback: Capabilities): Capabilities => {
+  const value = process.env[name];
+  if (value === undefined) return fallback;
+
+  let capabilities: unknown;
+  try {
+    capabilities = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`${name} must be valid JSON: ${error.message}`);
+  }
+  if (!isCapabilities(capabilities)) {
+    throw new Error(`${name} must map service URIs to permissions such as "read:profile", not ${value}`);
+  }
+  return capabilities;
+};
+
+// =============================================================================
+// Environment
+// =============================================================================
+
+const uri = process.env.SIWS_URI || 'http://localhost:3000';
+const nonceTtl = durationFromEnv('SIWS_EXPIRES_IN', '5m');
+
+export const config: ServerConfig = {
+  port: Number(process.env.PORT) || 3001,
+  domain: process.env.SIWS_DOMAIN || new URL(uri).host,
+  uri,
+  chainId: CLUSTER.chainId,
+  statement: process.env.SIWS_STATEMENT,
+  resources: listFromEnv('SIWS_RESOURCES', ['https://example.com', 'https://phantom.app/']),
+  capabilities: capabilitiesFromEnv('SIWS_CAPABILITIES', { 'https://example.com': ['read:profile', 'post:comments'] }),
+  multisigPermissions: permissionsFromEnv('SIWS_MULTISIG_PERMISSIONS', ['vote']),
+  nonceTtl,
+  maxNonceAge: durationFromEnv('SIWS_MAX_NONCE_AGE', nonceTtl),
+  nonceStorePath: process.env.SIWS_NONCE_STORE,
+  sessionStorePath: process.env.SIWS_SESSION_STORE,
+  redisUrl: process.env.SIWS_REDIS_URL,
+  sweepInterval: 60 * 1000, // one minute
+  maxDelegationTtl: durationFromEnv('SIWS_MAX_DELEGATION_TTL', '1h'),
+  maxRequestAge: 60 * 1000, // one minute
+  // A random secret invalidates every session on restart, set one to keep them
+  sessionSecret: process.env.SIWS_SESSION_SECRET || crypto.randomBytes(32).toString('hex'),
+  sessionTtl: 60 * 60 * 1000, // one hour
+};
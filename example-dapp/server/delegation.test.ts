@@ -0,0 +1,138 @@
+/**
+ * @jest-environment node
+ */
+import { webcrypto } from 'crypto';
+import { ed25519 } from '@noble/curves/ed25519';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+import { MOCK_WALLET_SEED, MockWallet } from '../src/mocks/MockWallet';
+import { Delegation, SerializedSignInOutput } from '../src/types';
+import { SessionKey, signDelegatedRequest } from '../src/utils/delegation';
+import { serializeSignInOutput } from '../src/utils/serializeSignInOutput';
+
+import { SignInConfig } from './config';
+import { DelegationOptions, registerDelegation, revokeDelegation, verifyDelegatedRequest } from './delegation';
+import { issueSignInInput } from './signIn';
+import { MemoryStore } from './stores';
+
+if (!globalThis.crypto) Object.defineProperty(globalThis, 'crypto', { value: webcrypto });
+
+const config: SignInConfig = {
+  domain: 'localhost:3000',
+  uri: 'http://localhost:3000',
+  chainId: 'solana:devnet',
+  resources: [],
+  nonceTtl: 5 * 60 * 1000,
+  maxNonceAge: 5 * 60 * 1000,
+  maxDelegationTtl: 60 * 60 * 1000,
+  maxRequestAge: 60 * 1000,
+};
+
+const ADDRESS = Keypair.fromSeed(MOCK_WALLET_SEED).publicKey.toBase58();
+const OTHER_ADDRESS = Keypair.fromSeed(new Uint8Array(32).fill(3)).publicKey.toBase58();
+
+const SESSION_SECRET_KEY = new Uint8Array(32).fill(4);
+
+/**
+ * Signs in with the mock wallet to delegate to a session key
+ * @param   {Delegation}             delegation the session key, scope and expiry to delegate
+ * @returns {SerializedSignInOutput}            the wallet's signed sign-in
+ */
+const delegate = async (delegation: Delegation): Promise<SerializedSignInOutput> => {
+  const input = await issueSignInInput(new MemoryStore(), config, delegation);
+  const [output] = await new MockWallet().features['solana:signIn'].signIn(input);
+  return serializeSignInOutput(output);
+};
+
+describe('session key delegation', () => {
+  let options: DelegationOptions;
+  const sessionKey: SessionKey = {
+    publicKey: bs58.encode(ed25519.getPublicKey(SESSION_SECRET_KEY)),
+    secretKey: SESSION_SECRET_KEY,
+  };
+  let delegation: Delegation;
+
+  beforeEach(() => {
+    options = {
+      domain: config.domain,
+      delegations: new MemoryStore(),
+      requestIds: new MemoryStore(),
+      maxRequestAge: 60 * 1000,
+    };
+    delegation = {
+      sessionKey: sessionKey.publicKey,
+      scope: ['sign-message'],
+      expirationTime: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    };
+  });
+
+  it('accepts a request signed by a registered session key, once', async () => {
+    const output = await delegate(delegation);
+    await registerDelegation(options.delegations, ADDRESS, delegation);
+    const request = signDelegatedRequest(sessionKey, output, 'sign-message', 'hello');
+
+    expect(await verifyDelegatedRequest(request, options)).toEqual({
+      verified: true,
+      address: ADDRESS,
+      sessionKey: sessionKey.publicKey,
+      action: 'sign-message',
+      payload: 'hello',
+    });
+    expect((await verifyDelegatedRequest(request, options)).error).toMatch(/has already been accepted$/);
+  });
+
+  it('rejects an action out of the delegated scope', async () => {
+    const output = await delegate(delegation);
+    await registerDelegation(options.delegations, ADDRESS, delegation);
+
+    expect(await verifyDelegatedRequest(signDelegatedRequest(sessionKey, output, 'transfer'), options)).toEqual({
+      verified: false,
+      error: 'Action transfer is not in the delegated scope (sign-message)',
+    });
+  });
+
+  it('rejects a request signed under another sign-in delegating more to the registered key', async () => {
+    await registerDelegation(options.delegations, ADDRESS, delegation);
+    const laterExpiry = new Date(Date.parse(delegation.expirationTime) + 60 * 60 * 1000).toISOString();
+    const wider = await delegate({ ...delegation, scope: ['sign-message', 'transfer'] });
+    const longer = await delegate({ ...delegation, expirationTime: laterExpiry });
+    const error = `Delegation to ${sessionKey.publicKey} is not the one registered`;
+
+    expect(await verifyDelegatedRequest(signDelegatedRequest(sessionKey, wider, 'transfer'), options)).toEqual({
+      verified: false,
+      error,
+    });
+    expect(await verifyDelegatedRequest(signDelegatedRequest(sessionKey, longer, 'sign-message'), options)).toEqual({
+      verified: false,
+      error,
+    });
+  });
+
+  it('does not let another wallet take over a session key already delegated to', async () => {
+    const output = await delegate(delegation);
+
+    expect(await registerDelegation(options.delegations, ADDRESS, delegation)).toBe(true);
+    expect(await registerDelegation(options.delegations, OTHER_ADDRESS, delegation)).toBe(false);
+    expect(await revokeDelegation(options.delegations, sessionKey.publicKey, OTHER_ADDRESS)).toBe(false);
+    expect(await verifyDelegatedRequest(signDelegatedRequest(sessionKey, output, 'sign-message'), options)).toEqual(
+      expect.objectContaining({ verified: true, address: ADDRESS })
+    );
+  });
+
+  it('rejects requests once the session key is revoked, until it is delegated to again', async () => {
+    const output = await delegate(delegation);
+    await registerDelegation(options.delegations, ADDRESS, delegation);
+
+    expect(await revokeDelegation(options.delegations, sessionKey.publicKey, ADDRESS)).toBe(true);
+    expect(await verifyDelegatedRequest(signDelegatedRequest(sessionKey, output, 'sign-message'), options)).toEqual({
+      verified: false,
+      error: `Delegation to ${sessionKey.publicKey} is unknown or has been revoked`,
+    });
+
+    expect(await registerDelegation(options.delegations, ADDRESS, delegation)).toBe(true);
+    expect(
+      (await verifyDelegatedRequest(signDelegatedRequest(sessionKey, output, 'sign-message'), options)).verified
+    ).toBe(true);
+  });
+});
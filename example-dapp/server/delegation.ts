@@ -0,0 +1,161 @@
+import bs58 from 'bs58';
+import { ed25519 } from '@noble/curves/ed25519';
+
+import { DelegatedAction, DelegatedVerification, Delegation, SignedDelegatedRequest } from '../src/types';
+import { findDelegation } from '../src/utils/delegation';
+import { deserializeSignInOutput } from '../src/utils/serializeSignInOutput';
+import { parseSignInMessage, SignInMessage } from '../src/utils/signInMessage';
+
+import { DelegationStore, ExpiringRecord, ExpiringStore } from './stores';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+export interface DelegationOptions {
+  /** Domain the delegating sign-in must be for */
+  domain: string;
+  /** Active delegations; a session key without one was never delegated to, or was revoked */
+  delegations: DelegationStore;
+  /** Ids of accepted requests, so a signed request is accepted only once */
+  requestIds: ExpiringStore<ExpiringRecord>;
+  /** How far the time a request was signed may be from now, in milliseconds */
+  maxRequestAge: number;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const verifySignature = (signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array): boolean => {
+  try {
+    return ed25519.verify(signature, message, publicKey);
+  } catch (error) {
+    return false;
+  }
+};
+
+const decodeAction = (request: Uint8Array): DelegatedAction | null => {
+  try {
+    const action: DelegatedAction = JSON.parse(new TextDecoder().decode(request));
+    return typeof action.action === 'string' && typeof action.requestId === 'string' ? action : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// =============================================================================
+// Main Functions
+// =============================================================================
+
+/**
+ * Records a delegation of a verified sign-in, so requests signed by its session key are accepted.
+ * A session key is only delegated to once, so no sign-in can take over another wallet's session key.
+ * @param   {DelegationStore} delegations active delegations
+ * @param   {String}          address     the wallet that signed in
+ * @param   {Delegation}      delegation  the delegation its sign-in message carried
+ * @returns {Boolean}                     whether the delegation was recorded, false if the key is already delegated to
+ */
+export const registerDelegation = async (
+  delegations: DelegationStore,
+  address: string,
+  { sessionKey, scope, expirationTime }: Delegation
+): Promise<boolean> => {
+  return delegations.add(sessionKey, { address, sessionKey, scope, expiresAt: Date.parse(expirationTime) });
+};
+
+/**
+ * Revokes a delegation before it expires
+ * @param   {DelegationStore} delegations active delegations
+ * @param   {String}          sessionKey  the session key to revoke
+ * @param   {String}          address     the wallet revoking it, which must be the one that delegated to it
+ * @returns {Boolean}                     whether an active delegation of the wallet was revoked
+ */
+export const revokeDelegation = async (
+  delegations: DelegationStore,
+  sessionKey: string,
+  address: string
+): Promise<boolean> => {
+  const record = await delegations.get(sessionKey);
+  if (!record || record.address !== address) return false;
+  return !!(await delegations.consume(sessionKey));
+};
+
+/**
+ * Verifies a request signed by a session key by walking the delegation chain back to the wallet:
+ * the wallet signed a sign-in for this domain whose resources delegate to the session key, the
+ * delegation is the one registered and has neither expired nor been revoked, it covers the action, and the session
+ * key signed the request
+ * @param   {SignedDelegatedRequest} signed  the request, with the sign-in that delegated to its session key
+ * @param   {DelegationOptions}      options the domain, stores and maximum request age
+ * @returns {DelegatedVerification}          the wallet and action, or why the request was rejected
+ */
+export const verifyDelegatedRequest = async (
+  signed: SignedDelegatedRequest,
+  { domain, delegations, requestIds, maxRequestAge }: DelegationOptions
+): Promise<DelegatedVerification> => {
+  let output: ReturnType<typeof deserializeSignInOutput>;
+  let parsed: SignInMessage;
+  let request: Uint8Array;
+  let signature: Uint8Array;
+  try {
+    output = deserializeSignInOutput(signed.delegation);
+    parsed = parseSignInMessage(output.signedMessage);
+    request = bs58.decode(signed.request);
+    signature = bs58.decode(signed.signature);
+  } catch (error) {
+    return { verified: false, error: `Delegated request is malformed: ${error.message}` };
+  }
+
+  // The wallet signed the sign-in carrying the delegation
+  const address = output.account.address;
+  const publicKey = new Uint8Array(output.account.publicKey);
+  if (parsed.domain !== domain) {
+    return { verified: false, error: `Delegation was signed for ${parsed.domain}, not ${domain}` };
+  }
+  if (parsed.address !== address || bs58.encode(publicKey) !== address) {
+    return { verified: false, error: `Delegation is not signed by ${parsed.address}` };
+  }
+  if (!verifySignature(new Uint8Array(output.signature), new Uint8Array(output.signedMessage), publicKey)) {
+    return { verified: false, error: 'Delegation signature verification failed' };
+  }
+
+  // The sign-in delegated to the session key, and the delegation is still active
+  const delegation = findDelegation(parsed.resources);
+  if (!delegation) {
+    return { verified: false, error: 'Signed message does not delegate to a session key' };
+  }
+  const { sessionKey, scope, expirationTime } = delegation;
+  if (Date.parse(expirationTime) <= Date.now()) {
+    return { verified: false, error: `Delegation to ${sessionKey} expired at ${expirationTime}` };
+  }
+  const record = await delegations.get(sessionKey);
+  if (!record || record.address !== address) {
+    return { verified: false, error: `Delegation to ${sessionKey} is unknown or has been revoked` };
+  }
+  // Another sign-in of the wallet could delegate more to the same key, only the registered one's terms apply
+  if (record.scope.join(' ') !== scope.join(' ') || record.expiresAt !== Date.parse(expirationTime)) {
+    return { verified: false, error: `Delegation to ${sessionKey} is not the one registered` };
+  }
+
+  // The session key signed the request, for an action in scope
+  if (!verifySignature(signature, request, bs58.decode(sessionKey))) {
+    return { verified: false, error: `Request is not signed by session key ${sessionKey}` };
+  }
+  const action = decodeAction(request);
+  if (!action) {
+    return { verified: false, error: 'Signed request is not a delegated action' };
+  }
+  if (!scope.includes(action.action)) {
+    return { verified: false, error: `Action ${action.action} is not in the delegated scope (${scope.join(', ')})` };
+  }
+  const issuedAt = Date.parse(action.issuedAt);
+  if (!(Math.abs(Date.now() - issuedAt) <= maxRequestAge)) {
+    return { verified: false, error: `Request was not signed within ${maxRequestAge / 1000} seconds of now` };
+  }
+  if (!(await requestIds.add(`${sessionKey}:${action.requestId}`, { expiresAt: issuedAt + maxRequestAge }))) {
+    return { verified: false, error: `Request ${action.requestId} has already been accepted` };
+  }
+
+  return { verified: true, address, sessionKey, action: action.action, payload: action.payload };
+};
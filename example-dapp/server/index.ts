@@ -0,0 +1,61 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+
+import { CLUSTER } from '../src/utils/cluster';
+
+import createApp from './app';
+import { config } from './config';
+import { SessionManager } from './sessions';
+import {
+  DelegationRecord,
+  DelegationStore,
+  ExpiringRecord,
+  ExpiringStore,
+  FileStore,
+  MemoryStore,
+  NonceRecord,
+  NonceStore,
+  RedisStore,
+  RespClient,
+  SessionRecord,
+  SessionStore,
+  startSweeping,
+} from './stores';
+
+interface Stores {
+  nonces: NonceStore;
+  sessions: SessionStore;
+  delegations: DelegationStore;
+  requestIds: ExpiringStore<ExpiringRecord>;
+}
+
+const createStores = (): Stores => {
+  if (config.redisUrl) {
+    const client = new RespClient(config.redisUrl);
+    return {
+      nonces: new RedisStore<NonceRecord>(client, 'siws:nonce:'),
+      sessions: new RedisStore<SessionRecord>(client, 'siws:session:'),
+      delegations: new RedisStore<DelegationRecord>(client, 'siws:delegation:'),
+      requestIds: new RedisStore<ExpiringRecord>(client, 'siws:request:'),
+    };
+  }
+
+  return {
+    nonces: config.nonceStorePath ? new FileStore(config.nonceStorePath) : new MemoryStore(),
+    sessions: config.sessionStorePath ? new FileStore(config.sessionStorePath) : new MemoryStore(),
+    // Lost on restart, after which session keys must be delegated to again
+    delegations: new MemoryStore(),
+    requestIds: new MemoryStore(),
+  };
+};
+
+const stores = createStores();
+const sessions = new SessionManager(config.sessionSecret, config.sessionTtl, stores.sessions);
+startSweeping(Object.values(stores), config.sweepInterval);
+
+const connection = new Connection(CLUSTER.endpoint);
+const fetchAccount = (address: PublicKey) => connection.getAccountInfo(address);
+const { nonces, delegations, requestIds } = stores;
+
+createApp({ store: nonces, sessions, delegations, requestIds, config, fetchAccount }).listen(config.port, () => {
+  console.log(`Sign-in server listening on http://localhost:${config.port} for ${config.domain}`);
+});
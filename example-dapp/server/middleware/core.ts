@@ -0,0 +1,367 @@
+import { SolanaSignInInput } from '@solana/wallet-standard-features';
+
+import {
+  DelegatedVerification,
+  Delegation,
+  SerializedSignInOutput,
+  Session,
+  SignedDelegatedRequest,
+  SignInVerification,
+} from '../../src/types';
+import { hasCapability } from '../../src/utils/capabilities';
+import { parseDuration } from '../../src/utils/createSignInInput';
+import { isDelegationScope, isSessionKey } from '../../src/utils/delegation';
+
+import { SignInConfig } from '../config';
+import { registerDelegation, revokeDelegation, verifyDelegatedRequest } from '../delegation';
+import { AccountFetcher, MultisigMembership } from '../multisig';
+import { SessionClaims, SessionManager } from '../sessions';
+import { issueSignInInput, verifyMultisigSignIn, verifySignInOutput, verifySignInTransaction } from '../signIn';
+import { DelegationStore, ExpiringRecord, ExpiringStore, MemoryStore, NonceStore } from '../stores';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+export type SiwsHeaders = Record<string, string | string[] | undefined>;
+
+/** A request as every adapter hands it to the core */
+export interface SiwsRequest {
+  method: string;
+  /** Path and query, e.g. `/api/verify` */
+  url: string;
+  headers: SiwsHeaders;
+  /** The parsed JSON body, if any; the core checks the shape of what it reads from it */
+  body?: unknown;
+}
+
+/** A response for the adapter to send; `body` is serialized as JSON */
+export interface SiwsResponse {
+  status: number;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface SiwsCookieOptions {
+  /** Defaults to `siws_session` */
+  name?: string;
+  /** Defaults to true; browsers only accept insecure cookies on localhost */
+  secure?: boolean;
+  /** Defaults to `Lax` */
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  /** Defaults to `/` */
+  path?: string;
+}
+
+export interface SiwsOptions {
+  store: NonceStore;
+  sessions: SessionManager;
+  config: SignInConfig;
+  /** Prefix of the routes, defaults to `/api` */
+  basePath?: string;
+  /** Where the session token is set besides the response body; `false` to only return it */
+  cookie?: SiwsCookieOptions | false;
+  /** Reads multisig accounts for multisig sign-ins, which are disabled without it */
+  fetchAccount?: AccountFetcher;
+  /** Session keys wallets delegated to, in memory by default */
+  delegations?: DelegationStore;
+  /** Ids of accepted delegated requests, in memory by default */
+  requestIds?: ExpiringStore<ExpiringRecord>;
+}
+
+/** A permission a route requires the session to have been granted, see `Capabilities` */
+export interface RequiredCapability {
+  /** URI of the service, e.g. `https://api.example.com` */
+  service: string;
+  /** e.g. `post:comments` */
+  permission: string;
+}
+
+export type SessionCheck = { claims: SessionClaims } | { response: SiwsResponse };
+
+export interface Siws {
+  /** Prefix of the routes, e.g. `/api` */
+  readonly basePath: string;
+  /** Whether a request URL is under the base path, so an adapter only reads the bodies of its own requests */
+  matches(url: string): boolean;
+  /** Issues a sign-in input with a fresh single-use nonce, and a delegation to a session key if given */
+  issueSignInInput(delegation?: Delegation): Promise<SolanaSignInInput>;
+  /** Verifies a sign-in output and, if it is valid, issues a session */
+  verifySignIn(output: SerializedSignInOutput): Promise<SignInVerification>;
+  /** Verifies a signed sign-in memo transaction and, if it is valid, issues a session */
+  verifySignInTransaction(transaction: string): Promise<SignInVerification>;
+  /** Verifies a sign-in output for a multisig vault, signed by a member, and if it is valid, issues a session */
+  verifyMultisigSignIn(output: SerializedSignInOutput, membership: MultisigMembership): Promise<SignInVerification>;
+  /** Verifies a request signed by a session key, back to the sign-in of the wallet that delegated to it */
+  verifyDelegatedRequest(request: SignedDelegatedRequest): Promise<DelegatedVerification>;
+  /** Revokes a session key of a wallet before its delegation expires */
+  revokeDelegation(sessionKey: string, address: string): Promise<boolean>;
+  /** Reads the session token from the `Authorization` header or the session cookie */
+  getSessionToken(headers: SiwsHeaders): string | null;
+  /** The claims of a valid session, or the 401 response to send; a 403 if it lacks the capability */
+  requireSession(headers: SiwsHeaders, capability?: RequiredCapability): Promise<SessionCheck>;
+  /** Answers a request to one of the sign-in routes, or resolves to null for any other path */
+  handle(request: SiwsRequest): Promise<SiwsResponse | null>;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_COOKIE: Required<SiwsCookieOptions> = {
+  name: 'siws_session',
+  secure: true,
+  sameSite: 'Lax',
+  path: '/',
+};
+
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const header = (headers: SiwsHeaders, name: string): string | undefined => {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const pathOf = (url: string): string => new URL(url, 'http://localhost').pathname;
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/** Checks the shape of a posted sign-in output; its fields are decoded, and may still be rejected, by the verifier */
+const isSerializedSignInOutput = (value: unknown): value is SerializedSignInOutput => {
+  return (
+    isObject(value) &&
+    isObject(value.account) &&
+    typeof value.account.address === 'string' &&
+    typeof value.account.publicKey === 'string' &&
+    typeof value.signedMessage === 'string' &&
+    typeof value.signature === 'string'
+  );
+};
+
+const isSignedDelegatedRequest = (value: unknown): value is SignedDelegatedRequest => {
+  return (
+    isObject(value) &&
+    isSerializedSignInOutput(value.delegation) &&
+    typeof value.request === 'string' &&
+    typeof value.signature === 'string'
+  );
+};
+
+export const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}): SiwsResponse => ({
+  status,
+  headers: { ...JSON_HEADERS, ...headers },
+  body,
+});
+
+/**
+ * Reads the cookies of a request
+ * @param   {String} cookieHeader the `Cookie` header
+ * @returns {Object}              the cookie values by name
+ */
+export const parseCookies = (cookieHeader = ''): Record<string, string> => {
+  return cookieHeader.split(';').reduce<Record<string, string>>((cookies, pair) => {
+    const [name, ...value] = pair.trim().split('=');
+    if (name && value.length) cookies[name] = decodeURIComponent(value.join('='));
+    return cookies;
+  }, {});
+};
+
+/**
+ * Creates a `Set-Cookie` header value
+ * @param   {String}            value   the cookie value, empty to clear the cookie
+ * @param   {Number}            maxAge  how long the cookie lasts, in seconds
+ * @param   {SiwsCookieOptions} options the cookie attributes
+ * @returns {String}                    the header value
+ */
+export const serializeCookie = (value: string, maxAge: number, options: SiwsCookieOptions = {}): string => {
+  const { name, secure, sameSite, path } = { ...DEFAULT_COOKIE, ...options };
+  const attributes = [`${name}=${encodeURIComponent(value)}`, `Max-Age=${maxAge}`, `Path=${path}`, 'HttpOnly'];
+  if (secure) attributes.push('Secure');
+  attributes.push(`SameSite=${sameSite}`);
+  return attributes.join('; ');
+};
+
+// =============================================================================
+// Main Function
+// =============================================================================
+
+/**
+ * Creates the framework-agnostic core of the sign-in middleware. Adapters turn their framework's
+ * request into a `SiwsRequest` and send back the `SiwsResponse`, see `./http`, `./express` and `./fastify`.
+ * @param   {SiwsOptions} options the nonce store, session manager and sign-in configuration
+ * @returns {Siws}                the sign-in operations and route handler
+ */
+const createSiws = (options: SiwsOptions): Siws => {
+  const { store, sessions, config, basePath = '/api', fetchAccount } = options;
+  const { delegations = new MemoryStore(), requestIds = new MemoryStore() } = options;
+  const cookie = options.cookie === false ? null : { ...DEFAULT_COOKIE, ...options.cookie };
+  const verifyOptions = { maxNonceAge: config.maxNonceAge };
+
+  const withSession = async (verification: SignInVerification): Promise<SignInVerification> => {
+    if (!verification.verified) return verification;
+    const { address, chainId, signer, delegation, capabilities } = verification;
+    if (delegation && !(await registerDelegation(delegations, address, delegation))) {
+      return { verified: false, error: `Session key ${delegation.sessionKey} is already delegated to` };
+    }
+    return { ...verification, session: await sessions.issue({ address, chainId, signer, capabilities }) };
+  };
+
+  const sessionHeaders = (session: Session | null): Record<string, string> => {
+    if (!cookie) return {};
+    if (!session) return { 'Set-Cookie': serializeCookie('', 0, cookie) };
+    const maxAge = Math.floor((session.expiresAt - Date.now()) / 1000);
+    return { 'Set-Cookie': serializeCookie(session.token, maxAge, cookie) };
+  };
+
+  const verificationResponse = (verification: SignInVerification): SiwsResponse => {
+    if (!verification.verified) return jsonResponse(401, verification);
+    return jsonResponse(200, verification, sessionHeaders(verification.session));
+  };
+
+  const siws: Siws = {
+    issueSignInInput: (delegation) => issueSignInInput(store, config, delegation),
+
+    verifySignIn: async (output) => withSession(await verifySignInOutput(store, output, verifyOptions)),
+
+    verifySignInTransaction: async (transaction) => {
+      return withSession(await verifySignInTransaction(store, transaction, verifyOptions));
+    },
+
+    verifyMultisigSignIn: async (output, membership) => {
+      if (!fetchAccount) throw new Error('Multisig sign-ins need an account fetcher');
+      return withSession(await verifyMultisigSignIn(store, output, membership, fetchAccount, verifyOptions));
+    },
+
+    verifyDelegatedRequest: (request) => {
+      const { domain, maxRequestAge } = config;
+      return verifyDelegatedRequest(request, { domain, delegations, requestIds, maxRequestAge });
+    },
+
+    revokeDelegation: (sessionKey, address) => revokeDelegation(delegations, sessionKey, address),
+
+    getSessionToken: (headers) => {
+      const [scheme, token] = (header(headers, 'authorization') ?? '').split(' ');
+      if (scheme === 'Bearer' && token) return token;
+      return (cookie && parseCookies(header(headers, 'cookie'))[cookie.name]) || null;
+    },
+
+    requireSession: async (headers, capability) => {
+      const claims = await sessions.verify(siws.getSessionToken(headers) ?? '');
+      if (!claims) return { response: jsonResponse(401, { error: 'Invalid or expired session' }) };
+      if (capability && !hasCapability(claims.capabilities, capability.service, capability.permission)) {
+        const error = `Session was not granted ${capability.permission} on ${capability.service}`;
+        return { response: jsonResponse(403, { error }) };
+      }
+      return { claims };
+    },
+
+    basePath,
+
+    matches: (url) => pathOf(url).startsWith(`${basePath}/`),
+
+    handle: async (request) => {
+      const { method, url, headers } = request;
+      if (!siws.matches(url)) return null;
+      const route = `${method} ${pathOf(url).slice(basePath.length)}`;
+      const body = isObject(request.body) ? request.body : {};
+
+      try {
+        switch (route) {
+          case 'GET /signin':
+            return jsonResponse(200, await siws.issueSignInInput());
+
+          case 'POST /verify':
+            if (!isSerializedSignInOutput(body.output)) {
+              return jsonResponse(400, { verified: false, error: 'Missing or malformed sign-in output' });
+            }
+            return verificationResponse(await siws.verifySignIn(body.output));
+
+          case 'POST /verify-transaction':
+            if (typeof body.transaction !== 'string') {
+              return jsonResponse(400, { verified: false, error: 'Missing sign-in transaction' });
+            }
+            return verificationResponse(await siws.verifySignInTransaction(body.transaction));
+
+          case 'POST /verify-multisig': {
+            if (!fetchAccount) return null;
+            const { output, multisig, vaultIndex } = body;
+            if (!isSerializedSignInOutput(output) || typeof multisig !== 'string') {
+              return jsonResponse(400, { verified: false, error: 'Missing sign-in output or multisig' });
+            }
+            if (vaultIndex !== undefined && typeof vaultIndex !== 'number') {
+              return jsonResponse(400, { verified: false, error: 'Vault index must be a number' });
+            }
+            return verificationResponse(
+              await siws.verifyMultisigSignIn(output, {
+                multisig,
+                vaultIndex: typeof vaultIndex === 'number' ? vaultIndex : undefined,
+                requiredPermissions: config.multisigPermissions,
+              })
+            );
+          }
+
+          case 'POST /delegation/signin': {
+            const { sessionKey, scope, expiresIn = config.maxDelegationTtl } = body;
+            if (!isSessionKey(sessionKey) || !isDelegationScope(scope)) {
+              return jsonResponse(400, { error: 'Missing session key or scope' });
+            }
+            const duration = typeof expiresIn === 'number' || typeof expiresIn === 'string' ? expiresIn : NaN;
+            const ttl = Math.min(parseDuration(duration), config.maxDelegationTtl);
+            if (!(ttl > 0)) return jsonResponse(400, { error: `"${expiresIn}" is not a positive duration` });
+
+            const expirationTime = new Date(Date.now() + ttl).toISOString();
+            return jsonResponse(200, await siws.issueSignInInput({ sessionKey, scope, expirationTime }));
+          }
+
+          case 'POST /delegation/verify': {
+            if (!isSignedDelegatedRequest(body.request)) {
+              return jsonResponse(400, { verified: false, error: 'Missing or malformed delegated request' });
+            }
+            const verification = await siws.verifyDelegatedRequest(body.request);
+            return jsonResponse(verification.verified ? 200 : 401, verification);
+          }
+
+          case 'POST /delegation/revoke': {
+            const check = await siws.requireSession(headers);
+            if ('response' in check) return check.response;
+            if (!isSessionKey(body.sessionKey)) return jsonResponse(400, { error: 'Missing session key' });
+
+            const revoked = await siws.revokeDelegation(body.sessionKey, check.claims.sub);
+            return revoked ? { status: 204, headers: {} } : jsonResponse(404, { error: 'No such delegation' });
+          }
+
+          case 'GET /session': {
+            const check = await siws.requireSession(headers);
+            return 'claims' in check ? jsonResponse(200, check.claims) : check.response;
+          }
+
+          case 'POST /session/refresh': {
+            const session = await sessions.refresh(siws.getSessionToken(headers) ?? '');
+            if (!session) return jsonResponse(401, { error: 'Invalid or expired session' });
+            return jsonResponse(200, session, sessionHeaders(session));
+          }
+
+          case 'POST /session/logout':
+            await sessions.revoke(siws.getSessionToken(headers) ?? '');
+            return { status: 204, headers: sessionHeaders(null) };
+
+          default:
+            return null;
+        }
+      } catch (error) {
+        console.warn(error);
+        return jsonResponse(500, { error: error.message });
+      }
+    },
+  };
+
+  return siws;
+};
+
+export default createSiws;
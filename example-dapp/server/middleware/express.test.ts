@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+import { Readable } from 'stream';
+
+import { SignInConfig } from '../config';
+import { SessionManager } from '../sessions';
+import { MemoryStore, SessionRecord } from '../stores';
+import createSiws from './core';
+import { ExpressRequest, ExpressResponse, requireSiwsSession, siwsMiddleware } from './express';
+
+const config: SignInConfig = {
+  domain: 'localhost:3000',
+  uri: 'http://localhost:3000',
+  chainId: 'solana:devnet',
+  resources: [],
+  nonceTtl: 5 * 60 * 1000,
+  maxNonceAge: 5 * 60 * 1000,
+  maxDelegationTtl: 60 * 60 * 1000,
+  maxRequestAge: 60 * 1000,
+};
+
+const createResponse = (): jest.Mocked<ExpressResponse> => {
+  const res = {} as jest.Mocked<ExpressResponse>;
+  res.status = jest.fn((_code: number) => res);
+  res.set = jest.fn((_headers: Record<string, string>) => res);
+  res.send = jest.fn((_body?: string) => res);
+  return res;
+};
+
+describe('siwsMiddleware', () => {
+  let middleware: ReturnType<typeof siwsMiddleware>;
+
+  /** A request whose body the middleware reads itself, as without a body parser */
+  const postWith = (url: string, body: string): ExpressRequest => {
+    return Object.assign(Readable.from([Buffer.from(body)]), {
+      method: 'POST',
+      url,
+      originalUrl: url,
+      headers: {},
+    }) as unknown as ExpressRequest;
+  };
+
+  beforeEach(() => {
+    const sessions = new SessionManager('secret', 60 * 1000, new MemoryStore());
+    middleware = siwsMiddleware(createSiws({ store: new MemoryStore(), sessions, config }));
+  });
+
+  it('answers a malformed JSON body with a 400', async () => {
+    const res = createResponse();
+    const next = jest.fn();
+    await middleware(postWith('/api/verify', '{"output":'), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.send).toHaveBeenCalledWith(JSON.stringify({ error: 'Malformed JSON body' }));
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('answers a body over the size limit with a 413', async () => {
+    const res = createResponse();
+    const next = jest.fn();
+    await middleware(postWith('/api/verify', JSON.stringify({ output: 'x'.repeat(200 * 1024) })), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(413);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('uses a body parsed before, and passes on the requests of other routes', async () => {
+    const res = createResponse();
+    const next = jest.fn();
+    await middleware(Object.assign(postWith('/api/verify', ''), { body: {} }), res, next);
+    await middleware(postWith('/other', ''), createResponse(), next);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.send).toHaveBeenCalledWith(
+      JSON.stringify({ verified: false, error: 'Missing or malformed sign-in output' })
+    );
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('requireSiwsSession', () => {
+  let sessionStore: MemoryStore<SessionRecord>;
+  let sessions: SessionManager;
+  let middleware: ReturnType<typeof requireSiwsSession>;
+
+  const requestWith = (token?: string) => {
+    return { headers: token ? { authorization: `Bearer ${token}` } : {} } as ExpressRequest;
+  };
+
+  beforeEach(() => {
+    sessionStore = new MemoryStore();
+    sessions = new SessionManager('secret', 60 * 1000, sessionStore);
+    middleware = requireSiwsSession(createSiws({ store: new MemoryStore(), sessions, config }));
+  });
+
+  it('answers a request without a session with a 401', async () => {
+    const res = createResponse();
+    const next = jest.fn();
+    await middleware(requestWith(), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('sets the session claims of a valid session', async () => {
+    const { token } = await sessions.issue({ address: 'address', chainId: 'solana:devnet' });
+    const req = requestWith(token);
+    const next = jest.fn();
+    await middleware(req, createResponse(), next);
+
+    expect(req.siwsSession).toMatchObject({ sub: 'address' });
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('passes a failure to check the session on to the error handler', async () => {
+    const { token } = await sessions.issue({ address: 'address', chainId: 'solana:devnet' });
+    const error = new Error('Store unavailable');
+    jest.spyOn(sessionStore, 'get').mockRejectedValue(error);
+    const res = createResponse();
+    const next = jest.fn();
+    await middleware(requestWith(token), res, next);
+
+    expect(next).toHaveBeenCalledWith(error);
+    expect(res.send).not.toHaveBeenCalled();
+  });
+});
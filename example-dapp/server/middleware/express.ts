@@ -0,0 +1,107 @@
+import http from 'http';
+
+import { SessionClaims } from '../sessions';
+import { RequiredCapability, SessionCheck, Siws, SiwsResponse } from './core';
+import { bodyErrorResponse, readJson } from './http';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+// The parts of Express the adapter uses, so the server does not depend on it
+
+export interface ExpressRequest extends http.IncomingMessage {
+  /** The URL before any mount path was stripped */
+  originalUrl: string;
+  /** Set by a body parser such as `express.json()`; the adapter reads the body itself otherwise */
+  body?: unknown;
+  /** Set by `requireSiwsSession` */
+  siwsSession?: SessionClaims;
+}
+
+export interface ExpressResponse {
+  status(code: number): ExpressResponse;
+  set(headers: Record<string, string>): ExpressResponse;
+  send(body?: string): ExpressResponse;
+}
+
+export type ExpressNextFunction = (error?: unknown) => void;
+
+export type ExpressMiddleware = (req: ExpressRequest, res: ExpressResponse, next: ExpressNextFunction) => Promise<void>;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const sendResponse = (res: ExpressResponse, response: SiwsResponse) => {
+  res
+    .status(response.status)
+    .set(response.headers)
+    .send(response.body === undefined ? undefined : JSON.stringify(response.body));
+};
+
+// =============================================================================
+// Adapter
+// =============================================================================
+
+/**
+ * Creates an Express middleware answering the sign-in routes and passing on every other request.
+ * Routes are matched on `originalUrl`, so the core's `basePath` must include any mount path. A body it reads
+ * itself is answered as by the `http` adapter when malformed (400) or too large (413).
+ * @param   {Siws}              siws the middleware core, see `createSiws`
+ * @returns {ExpressMiddleware}      the middleware, e.g. for `app.use`
+ */
+export const siwsMiddleware = (siws: Siws): ExpressMiddleware => {
+  return async (req, res, next) => {
+    if (!siws.matches(req.originalUrl)) {
+      next();
+      return;
+    }
+
+    let body = req.body;
+    try {
+      if (body === undefined && req.method === 'POST') body = await readJson(req);
+    } catch (error) {
+      sendResponse(res, bodyErrorResponse(error));
+      return;
+    }
+
+    try {
+      const response = await siws.handle({ method: req.method, url: req.originalUrl, headers: req.headers, body });
+      if (response) {
+        sendResponse(res, response);
+      } else {
+        next();
+      }
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Creates an Express middleware that answers requests without a valid session with a 401, or with a 403
+ * if the session was not granted the capability, and sets `req.siwsSession` for every other request.
+ * A failure to check the session, e.g. of the session store, is passed on to Express's error handling.
+ * @param   {Siws}               siws       the middleware core, see `createSiws`
+ * @param   {RequiredCapability} capability a permission the session must have been granted
+ * @returns {ExpressMiddleware}             the middleware, e.g. for a route
+ */
+export const requireSiwsSession = (siws: Siws, capability?: RequiredCapability): ExpressMiddleware => {
+  return async (req, res, next) => {
+    let check: SessionCheck;
+    try {
+      check = await siws.requireSession(req.headers, capability);
+    } catch (error) {
+      next(error);
+      return;
+    }
+    if ('response' in check) {
+      sendResponse(res, check.response);
+      return;
+    }
+
+    req.siwsSession = check.claims;
+    next();
+  };
+};
@@ -0,0 +1,112 @@
+/**
+ * @jest-environment node
+ */
+import { SignInConfig } from '../config';
+import { SessionManager } from '../sessions';
+import { MemoryStore } from '../stores';
+import createSiws, { Siws } from './core';
+import { FastifyHandler, FastifyReply, FastifyRequest, requireSiwsSession, siwsPlugin } from './fastify';
+
+const config: SignInConfig = {
+  domain: 'localhost:3000',
+  uri: 'http://localhost:3000',
+  chainId: 'solana:devnet',
+  resources: [],
+  nonceTtl: 5 * 60 * 1000,
+  maxNonceAge: 5 * 60 * 1000,
+  maxDelegationTtl: 60 * 60 * 1000,
+  maxRequestAge: 60 * 1000,
+};
+
+const createReply = (): jest.Mocked<FastifyReply> => {
+  const reply = {} as jest.Mocked<FastifyReply>;
+  reply.code = jest.fn((_statusCode: number) => reply);
+  reply.headers = jest.fn((_values: Record<string, string>) => reply);
+  reply.send = jest.fn((_payload?: unknown) => reply);
+  return reply;
+};
+
+const sentBody = (reply: jest.Mocked<FastifyReply>) => JSON.parse(reply.send.mock.calls[0][0] as string);
+
+let sessions: SessionManager;
+let siws: Siws;
+
+beforeEach(() => {
+  sessions = new SessionManager('secret', 60 * 1000, new MemoryStore());
+  siws = createSiws({ store: new MemoryStore(), sessions, config });
+});
+
+describe('siwsPlugin', () => {
+  let path: string;
+  let handler: FastifyHandler;
+
+  beforeEach(async () => {
+    await siwsPlugin(siws)({
+      all: (routePath, routeHandler) => {
+        path = routePath;
+        handler = routeHandler;
+      },
+    });
+  });
+
+  it('registers every route under the base path', () => {
+    expect(path).toBe('/api/*');
+  });
+
+  it('answers a sign-in route with the core response', async () => {
+    const reply = createReply();
+    await handler({ method: 'GET', url: '/api/signin', headers: {} }, reply);
+
+    expect(reply.code).toHaveBeenCalledWith(200);
+    expect(reply.headers).toHaveBeenCalledWith({ 'Content-Type': 'application/json' });
+    expect(sentBody(reply)).toMatchObject({ domain: 'localhost:3000', chainId: 'solana:devnet' });
+  });
+
+  it('passes the parsed body to the core', async () => {
+    const reply = createReply();
+    await handler({ method: 'POST', url: '/api/verify', headers: {}, body: { output: 'not-an-output' } }, reply);
+
+    expect(reply.code).toHaveBeenCalledWith(400);
+    expect(sentBody(reply)).toEqual({ verified: false, error: 'Missing or malformed sign-in output' });
+  });
+
+  it('answers an unknown route under the base path with a 404', async () => {
+    const reply = createReply();
+    await handler({ method: 'GET', url: '/api/unknown', headers: {} }, reply);
+
+    expect(reply.code).toHaveBeenCalledWith(404);
+    expect(sentBody(reply)).toEqual({ error: 'Not found' });
+  });
+});
+
+describe('requireSiwsSession', () => {
+  it('answers a request without a session with a 401', async () => {
+    const reply = createReply();
+    await requireSiwsSession(siws)({ method: 'GET', url: '/me', headers: {} }, reply);
+
+    expect(reply.code).toHaveBeenCalledWith(401);
+    expect(sentBody(reply)).toEqual({ error: 'Invalid or expired session' });
+  });
+
+  it('sets the session claims of a valid session, without replying', async () => {
+    const { token } = await sessions.issue({ address: 'address', chainId: 'solana:devnet' });
+    const request: FastifyRequest = { method: 'GET', url: '/me', headers: { authorization: `Bearer ${token}` } };
+    const reply = createReply();
+    await requireSiwsSession(siws)(request, reply);
+
+    expect(request.siwsSession).toMatchObject({ sub: 'address' });
+    expect(reply.send).not.toHaveBeenCalled();
+  });
+
+  it('answers a session without the capability with a 403', async () => {
+    const { token } = await sessions.issue({ address: 'address', chainId: 'solana:devnet' });
+    const reply = createReply();
+    const capability = { service: 'https://example.com', permission: 'post:comments' };
+    await requireSiwsSession(siws, capability)(
+      { method: 'GET', url: '/me', headers: { cookie: `siws_session=${token}` } },
+      reply
+    );
+
+    expect(reply.code).toHaveBeenCalledWith(403);
+  });
+});
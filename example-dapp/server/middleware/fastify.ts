@@ -0,0 +1,78 @@
+import { SessionClaims } from '../sessions';
+import { jsonResponse, RequiredCapability, Siws, SiwsHeaders, SiwsResponse } from './core';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+// The parts of Fastify the adapter uses, so the server does not depend on it
+
+export interface FastifyRequest {
+  method: string;
+  url: string;
+  headers: SiwsHeaders;
+  /** Parsed by Fastify's built-in JSON parser */
+  body?: unknown;
+  /** Set by `requireSiwsSession` */
+  siwsSession?: SessionClaims;
+}
+
+export interface FastifyReply {
+  code(statusCode: number): FastifyReply;
+  headers(values: Record<string, string>): FastifyReply;
+  send(payload?: unknown): FastifyReply;
+}
+
+export type FastifyHandler = (request: FastifyRequest, reply: FastifyReply) => Promise<unknown>;
+
+export interface FastifyInstance {
+  all(path: string, handler: FastifyHandler): unknown;
+}
+
+export type FastifyPlugin = (fastify: FastifyInstance) => Promise<void>;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const sendResponse = (reply: FastifyReply, response: SiwsResponse): FastifyReply => {
+  return reply
+    .code(response.status)
+    .headers(response.headers)
+    .send(response.body === undefined ? undefined : JSON.stringify(response.body));
+};
+
+// =============================================================================
+// Adapter
+// =============================================================================
+
+/**
+ * Creates a Fastify plugin registering the sign-in routes under the core's `basePath`
+ * @param   {Siws}          siws the middleware core, see `createSiws`
+ * @returns {FastifyPlugin}      the plugin, for `fastify.register`
+ */
+export const siwsPlugin = (siws: Siws): FastifyPlugin => {
+  return async (fastify) => {
+    fastify.all(`${siws.basePath}/*`, async (request, reply) => {
+      const { method, url, headers, body } = request;
+      const response = await siws.handle({ method, url, headers, body });
+      return sendResponse(reply, response ?? jsonResponse(404, { error: 'Not found' }));
+    });
+  };
+};
+
+/**
+ * Creates a Fastify `preHandler` hook that answers requests without a valid session with a 401, or with a 403
+ * if the session was not granted the capability, and sets `request.siwsSession` for every other request
+ * @param   {Siws}               siws       the middleware core, see `createSiws`
+ * @param   {RequiredCapability} capability a permission the session must have been granted
+ * @returns {FastifyHandler}                the hook, e.g. for a route's `preHandler`
+ */
+export const requireSiwsSession = (siws: Siws, capability?: RequiredCapability): FastifyHandler => {
+  return async (request, reply) => {
+    const check = await siws.requireSession(request.headers, capability);
+    if ('response' in check) return sendResponse(reply, check.response);
+
+    request.siwsSession = check.claims;
+  };
+};
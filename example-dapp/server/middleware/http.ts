@@ -0,0 +1,151 @@
+import http from 'http';
+
+import { SessionClaims } from '../sessions';
+import { jsonResponse, RequiredCapability, Siws, SiwsResponse } from './core';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+export type SiwsHttpHandler = (req: http.IncomingMessage, res: http.ServerResponse) => Promise<boolean>;
+
+export type SessionRequestListener = (
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  claims: SessionClaims
+) => void | Promise<void>;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// As Express's JSON body parser; the largest sign-in bodies are a few kilobytes
+const MAX_BODY_SIZE = 100 * 1024; // 100 kB
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+export class BodyTooLargeError extends Error {
+  name = 'BodyTooLargeError';
+  /** Read by Express's error handler, as for the errors of its body parser */
+  status = 413;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Reads and parses a JSON request body
+ * @param   {http.IncomingMessage} req   a request
+ * @param   {Number}               limit the size the body may have at most, in bytes
+ * @returns {Any}                        the parsed body, an empty object if there is none
+ * @throws  {BodyTooLargeError} when the body is larger than `limit`, without reading the rest of it
+ */
+export const readJson = (req: http.IncomingMessage, limit = MAX_BODY_SIZE): Promise<unknown> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= limit) {
+        chunks.push(chunk);
+        return;
+      }
+      // Discard the rest, so the response can still be sent
+      req.off('data', onData);
+      req.resume();
+      reject(new BodyTooLargeError(`Request body is larger than ${limit} bytes`));
+    };
+
+    req.on('data', onData);
+    req.on('end', () => {
+      try {
+        const body = Buffer.concat(chunks).toString('utf8');
+        resolve(body ? JSON.parse(body) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+/**
+ * Answers a request whose body could not be read
+ * @param   {Any}          error what `readJson` rejected with
+ * @returns {SiwsResponse}       a 413 if the body is too large, a 400 otherwise
+ */
+export const bodyErrorResponse = (error: unknown): SiwsResponse => {
+  if (error instanceof BodyTooLargeError) return jsonResponse(413, { error: error.message });
+  return jsonResponse(400, { error: 'Malformed JSON body' });
+};
+
+export const sendResponse = (res: http.ServerResponse, response: SiwsResponse) => {
+  res.writeHead(response.status, response.headers);
+  res.end(response.body === undefined ? undefined : JSON.stringify(response.body));
+};
+
+// =============================================================================
+// Adapter
+// =============================================================================
+
+/**
+ * Creates a Node `http` handler for the sign-in routes
+ * @param   {Siws}            siws the middleware core, see `createSiws`
+ * @returns {SiwsHttpHandler}      resolves to true once it answered, false for a request that is not its own
+ */
+export const createSiwsHandler = (siws: Siws): SiwsHttpHandler => {
+  return async (req, res) => {
+    if (!siws.matches(req.url ?? '')) return false;
+
+    let body: unknown;
+    try {
+      body = req.method === 'POST' ? await readJson(req) : undefined;
+    } catch (error) {
+      sendResponse(res, bodyErrorResponse(error));
+      return true;
+    }
+
+    const response = await siws.handle({ method: req.method ?? 'GET', url: req.url ?? '', headers: req.headers, body });
+    if (!response) return false;
+
+    sendResponse(res, response);
+    return true;
+  };
+};
+
+/**
+ * Guards a request listener: requests without a valid session are answered with a 401,
+ * and those whose session was not granted the capability with a 403. A failure to check the session,
+ * or of the listener, is answered with a 500 unless the listener already started its response.
+ * @param   {Siws}                   siws       the middleware core, see `createSiws`
+ * @param   {SessionRequestListener} listener   called with the session claims of every other request
+ * @param   {RequiredCapability}     capability a permission the session must have been granted
+ * @returns {http.RequestListener}              the guarded listener
+ */
+export const requireSiwsSession = (
+  siws: Siws,
+  listener: SessionRequestListener,
+  capability?: RequiredCapability
+): http.RequestListener => {
+  return async (req, res) => {
+    try {
+      const check = await siws.requireSession(req.headers, capability);
+      if ('response' in check) {
+        sendResponse(res, check.response);
+        return;
+      }
+
+      await listener(req, res, check.claims);
+    } catch (error) {
+      console.warn(error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        sendResponse(res, jsonResponse(500, { error: error.message }));
+      }
+    }
+  };
+};
@@ -0,0 +1,14 @@
+export { default as createSiws, jsonResponse, parseCookies, serializeCookie } from './core';
+export type {
+  RequiredCapability,
+  SessionCheck,
+  Siws,
+  SiwsCookieOptions,
+  SiwsHeaders,
+  SiwsOptions,
+  SiwsRequest,
+  SiwsResponse,
+} from './core';
+export * as express from './express';
+export * as fastify from './fastify';
+export * as http from './http';
@@ -0,0 +1,124 @@
+import net from 'net';
+
+import { parseReply, RespValue } from '../stores/resp';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+interface MockRedisEntry {
+  value: string;
+  /** When the key expires, in milliseconds since the epoch, or Infinity */
+  expiresAt: number;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const simpleString = (value: string): string => `+${value}\r\n`;
+
+const bulkString = (value: string | null): string => {
+  return value === null ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+};
+
+const errorReply = (message: string): string => `-${message}\r\n`;
+
+// =============================================================================
+// Mock Redis
+// =============================================================================
+
+/**
+ * An in-process stand-in for Redis, speaking just enough RESP2 for `RespClient` and `RedisStore`:
+ * `AUTH`, `SELECT`, `SET` with `PX` and `NX`, `GET` and `GETDEL`. Keys expire by the clock, as in Redis.
+ */
+export class MockRedis {
+  /** Every command received, in order */
+  readonly commands: string[][] = [];
+  private readonly entries = new Map<string, MockRedisEntry>();
+  private readonly sockets = new Set<net.Socket>();
+  private readonly authenticated = new WeakSet<net.Socket>();
+  private readonly server = net.createServer((socket) => this.accept(socket));
+
+  /**
+   * @param {String} password when set, every command but `AUTH` fails until the connection authenticates
+   */
+  constructor(private readonly password?: string) {}
+
+  /** Starts listening on a free port, resolving to the URL to connect to, without credentials */
+  listen(): Promise<string> {
+    return new Promise((resolve) => {
+      this.server.listen(0, '127.0.0.1', () => {
+        resolve(`redis://127.0.0.1:${(this.server.address() as net.AddressInfo).port}`);
+      });
+    });
+  }
+
+  /** Drops every connection, as a restarting Redis would */
+  disconnect() {
+    this.sockets.forEach((socket) => socket.destroy());
+  }
+
+  close(): Promise<void> {
+    this.disconnect();
+    return new Promise((resolve, reject) => this.server.close((error) => (error ? reject(error) : resolve())));
+  }
+
+  private accept(socket: net.Socket) {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+
+    let buffer = Buffer.alloc(0);
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let command = parseReply(buffer);
+      while (command) {
+        socket.write(this.execute(socket, command.value));
+        buffer = buffer.subarray(command.offset);
+        command = parseReply(buffer);
+      }
+    });
+  }
+
+  private execute(socket: net.Socket, command: RespValue): string {
+    if (!Array.isArray(command) || !command.every((arg): arg is string => typeof arg === 'string')) {
+      return errorReply('ERR Protocol error');
+    }
+    this.commands.push(command);
+
+    const [name, key, ...options] = command;
+    if (name === 'AUTH') {
+      if (key !== this.password && options[0] !== this.password) return errorReply('WRONGPASS invalid password');
+      this.authenticated.add(socket);
+      return simpleString('OK');
+    }
+    if (this.password && !this.authenticated.has(socket)) return errorReply('NOAUTH Authentication required.');
+
+    switch (name) {
+      case 'SELECT':
+        return simpleString('OK');
+      case 'SET': {
+        const [value, ...flags] = options;
+        if (flags.includes('NX') && this.read(key) !== null) return bulkString(null);
+        const px = flags.indexOf('PX');
+        const expiresAt = px === -1 ? Infinity : Date.now() + Number(flags[px + 1]);
+        this.entries.set(key, { value, expiresAt });
+        return simpleString('OK');
+      }
+      case 'GET':
+        return bulkString(this.read(key));
+      case 'GETDEL': {
+        const value = this.read(key);
+        this.entries.delete(key);
+        return bulkString(value);
+      }
+      default:
+        return errorReply(`ERR unknown command '${name}'`);
+    }
+  }
+
+  private read(key: string): string | null {
+    const entry = this.entries.get(key);
+    return entry && entry.expiresAt > Date.now() ? entry.value : null;
+  }
+}
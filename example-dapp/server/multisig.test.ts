@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+import crypto from 'crypto';
+import { Keypair, PublicKey } from '@solana/web3.js';
+
+import verifyMultisigMember, {
+  AccountFetcher,
+  getSquadsVaultAddress,
+  parseSquadsMultisig,
+  SQUADS_PERMISSIONS,
+  SQUADS_PROGRAM_ID,
+  SquadsMember,
+} from './multisig';
+
+const { initiate, vote, execute } = SQUADS_PERMISSIONS;
+
+const key = (seed: number) => Keypair.fromSeed(new Uint8Array(32).fill(seed)).publicKey;
+
+const MULTISIG = key(1);
+const VAULT = getSquadsVaultAddress(MULTISIG).toBase58();
+const VOTER = key(2);
+const PROPOSER = key(3);
+
+/**
+ * Encodes a Squads v4 multisig account as the program stores it
+ * @param   {SquadsMember[]} members the members and their permissions
+ * @param   {Object}         options the threshold, and the rent collector if there is one
+ * @returns {Buffer}                 the account data
+ */
+const createMultisigData = (
+  members: SquadsMember[],
+  { threshold = 1, rentCollector }: { threshold?: number; rentCollector?: PublicKey } = {}
+): Buffer => {
+  const discriminator = crypto.createHash('sha256').update('account:Multisig').digest().subarray(0, 8);
+  const numbers = Buffer.alloc(2 + 4 + 8 + 8);
+  numbers.writeUInt16LE(threshold);
+  const count = Buffer.alloc(4);
+  count.writeUInt32LE(members.length);
+
+  return Buffer.concat([
+    discriminator,
+    key(10).toBuffer(),
+    key(11).toBuffer(),
+    numbers,
+    rentCollector ? Buffer.concat([Buffer.from([1]), rentCollector.toBuffer()]) : Buffer.from([0]),
+    Buffer.from([255]),
+    count,
+    ...members.map(({ key, permissions }) => Buffer.concat([key.toBuffer(), Buffer.from([permissions])])),
+  ]);
+};
+
+const MEMBERS: SquadsMember[] = [
+  { key: VOTER, permissions: initiate | vote | execute },
+  { key: PROPOSER, permissions: initiate },
+];
+
+const fetchMultisig: AccountFetcher = async (address) => {
+  return address.equals(MULTISIG) ? { owner: SQUADS_PROGRAM_ID, data: createMultisigData(MEMBERS) } : null;
+};
+
+describe('parseSquadsMultisig', () => {
+  it('reads the threshold and members', () => {
+    expect(parseSquadsMultisig(createMultisigData(MEMBERS, { threshold: 2 }))).toEqual({
+      threshold: 2,
+      members: MEMBERS,
+    });
+  });
+
+  it('skips a rent collector', () => {
+    expect(parseSquadsMultisig(createMultisigData(MEMBERS, { rentCollector: key(12) })).members).toEqual(MEMBERS);
+  });
+
+  it('rejects an account of another type', () => {
+    const data = createMultisigData(MEMBERS);
+    data[0] ^= 1;
+
+    expect(() => parseSquadsMultisig(data)).toThrow('Account is not a Squads multisig');
+  });
+
+  it('rejects a truncated account', () => {
+    const data = createMultisigData(MEMBERS);
+
+    expect(() => parseSquadsMultisig(data.subarray(0, data.length - 1))).toThrow(
+      'Squads multisig account is truncated'
+    );
+  });
+});
+
+describe('verifyMultisigMember', () => {
+  const multisig = MULTISIG.toBase58();
+
+  it('accepts a member who may vote, for vault 0 by default', async () => {
+    expect(await verifyMultisigMember(fetchMultisig, VAULT, VOTER.toBase58(), { multisig })).toEqual({
+      multisig: { threshold: 1, members: MEMBERS },
+    });
+  });
+
+  it('requires the vote permission by default', async () => {
+    expect(await verifyMultisigMember(fetchMultisig, VAULT, PROPOSER.toBase58(), { multisig })).toEqual({
+      error: `${PROPOSER.toBase58()} lacks the permissions required to sign in for multisig ${multisig}`,
+    });
+  });
+
+  it('checks the required permissions given', async () => {
+    const proposer = { multisig, requiredPermissions: initiate };
+    const executor = { multisig, requiredPermissions: vote | execute };
+
+    expect(await verifyMultisigMember(fetchMultisig, VAULT, PROPOSER.toBase58(), proposer)).toHaveProperty('multisig');
+    expect(await verifyMultisigMember(fetchMultisig, VAULT, VOTER.toBase58(), executor)).toHaveProperty('multisig');
+    expect(await verifyMultisigMember(fetchMultisig, VAULT, PROPOSER.toBase58(), executor)).toHaveProperty('error');
+  });
+
+  it('checks the vault index', async () => {
+    const vault = getSquadsVaultAddress(MULTISIG, 1).toBase58();
+
+    expect(await verifyMultisigMember(fetchMultisig, vault, VOTER.toBase58(), { multisig, vaultIndex: 1 })).toEqual({
+      multisig: expect.anything(),
+    });
+    expect(await verifyMultisigMember(fetchMultisig, vault, VOTER.toBase58(), { multisig })).toEqual({
+      error: `${vault} is not vault 0 of multisig ${multisig}`,
+    });
+    expect(await verifyMultisigMember(fetchMultisig, vault, VOTER.toBase58(), { multisig, vaultIndex: 256 })).toEqual({
+      error: 'Vault index 256 is out of range',
+    });
+  });
+
+  it('rejects a key that is not a member', async () => {
+    const outsider = key(4).toBase58();
+
+    expect(await verifyMultisigMember(fetchMultisig, VAULT, outsider, { multisig })).toEqual({
+      error: `${outsider} is not a member of multisig ${multisig}`,
+    });
+  });
+
+  it('rejects a malformed multisig address', async () => {
+    expect(await verifyMultisigMember(fetchMultisig, VAULT, VOTER.toBase58(), { multisig: 'not-a-key' })).toEqual({
+      error: 'Multisig address "not-a-key" is malformed',
+    });
+  });
+
+  it('rejects an account that is missing or not owned by Squads', async () => {
+    const impostor: AccountFetcher = async () => ({ owner: key(5), data: createMultisigData(MEMBERS) });
+
+    expect(await verifyMultisigMember(async () => null, VAULT, VOTER.toBase58(), { multisig })).toEqual({
+      error: `${multisig} is not a Squads multisig`,
+    });
+    expect(await verifyMultisigMember(impostor, VAULT, VOTER.toBase58(), { multisig })).toEqual({
+      error: `${multisig} is not a Squads multisig`,
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import crypto from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+/** The parts of an account the verifier reads, as returned by `Connection.getAccountInfo` */
+export interface FetchedAccount {
+  owner: PublicKey;
+  data: Buffer;
+}
+
+/** Fetches an account, e.g. `(address) => connection.getAccountInfo(address)`, or a fixture */
+export type AccountFetcher = (address: PublicKey) => Promise<FetchedAccount | null>;
+
+export interface SquadsMember {
+  key: PublicKey;
+  /** Bit mask of `SQUADS_PERMISSIONS` */
+  permissions: number;
+}
+
+export interface SquadsMultisig {
+  threshold: number;
+  members: SquadsMember[];
+}
+
+export interface MultisigMembership {
+  /** Address of the Squads multisig account */
+  multisig: string;
+  /** Index of the vault the sign-in is for, defaults to 0 */
+  vaultIndex?: number;
+  /**
+   * Permissions the member must have, a bit mask of `SQUADS_PERMISSIONS`. Defaults to `vote`, so a member who may
+   * only propose transactions cannot act for the vault.
+   */
+  requiredPermissions?: number;
+}
+
+type MembershipCheck = { multisig: SquadsMultisig } | { error: string };
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const SQUADS_PROGRAM_ID = new PublicKey('SQDS4ep65T869zMMBKyuUq6aD6EgTu8psMjkvj52pCf');
+
+export const SQUADS_PERMISSIONS = {
+  initiate: 1,
+  vote: 2,
+  execute: 4,
+};
+
+// Anchor prefixes every account with the first 8 bytes of the hash of its type name
+const MULTISIG_DISCRIMINATOR = crypto.createHash('sha256').update('account:Multisig').digest().subarray(0, 8);
+
+// Discriminator, create key, config authority, threshold (u16), time lock (u32), transaction indexes (2 x u64)
+const RENT_COLLECTOR_OFFSET = 8 + 32 + 32 + 2 + 4 + 8 + 8;
+const THRESHOLD_OFFSET = 8 + 32 + 32;
+// Member key and permission mask
+const MEMBER_SIZE = 32 + 1;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Decodes a Squads v4 multisig account
+ * @param   {Buffer}         data the account data
+ * @returns {SquadsMultisig}      the threshold and members
+ * @throws  {Error} when the data is not that of a multisig
+ */
+export const parseSquadsMultisig = (data: Buffer): SquadsMultisig => {
+  if (data.length < RENT_COLLECTOR_OFFSET || !data.subarray(0, 8).equals(MULTISIG_DISCRIMINATOR)) {
+    throw new Error('Account is not a Squads multisig');
+  }
+
+  // rent collector (an optional key), bump
+  let offset = RENT_COLLECTOR_OFFSET;
+  offset += data[offset] === 1 ? 1 + 32 : 1;
+  offset += 1;
+
+  const count = data.readUInt32LE(offset);
+  offset += 4;
+  if (data.length < offset + count * MEMBER_SIZE) throw new Error('Squads multisig account is truncated');
+
+  const members = Array.from({ length: count }, (_, i) => {
+    const start = offset + i * MEMBER_SIZE;
+    return { key: new PublicKey(data.subarray(start, start + 32)), permissions: data[start + 32] };
+  });
+  return { threshold: data.readUInt16LE(THRESHOLD_OFFSET), members };
+};
+
+/**
+ * Derives the address of a vault of a Squads multisig, the address it holds funds and signs in with
+ * @param   {PublicKey} multisig   the multisig account
+ * @param   {Number}    vaultIndex the index of the vault
+ * @returns {PublicKey}            the vault PDA
+ */
+export const getSquadsVaultAddress = (multisig: PublicKey, vaultIndex = 0): PublicKey => {
+  const [vault] = PublicKey.findProgramAddressSync(
+    [Buffer.from('multisig'), multisig.toBuffer(), Buffer.from('vault'), Buffer.from([vaultIndex])],
+    SQUADS_PROGRAM_ID
+  );
+  return vault;
+};
+
+// =============================================================================
+// Main Function
+// =============================================================================
+
+/**
+ * Checks that a key may sign in for a vault: the vault must belong to the multisig,
+ * and the key must be a member of it with the required permissions
+ * @param   {AccountFetcher}     fetchAccount reads the multisig account
+ * @param   {String}             vault        the vault address the sign-in is for
+ * @param   {String}             member       the key that signed the sign-in
+ * @param   {MultisigMembership} membership   the multisig, vault index and required permissions
+ * @returns {MembershipCheck}                 the multisig, or why the key may not sign in for the vault
+ */
+const verifyMultisigMember = async (
+  fetchAccount: AccountFetcher,
+  vault: string,
+  member: string,
+  { multisig, vaultIndex = 0, requiredPermissions = SQUADS_PERMISSIONS.vote }: MultisigMembership
+): Promise<MembershipCheck> => {
+  let multisigAddress: PublicKey;
+  try {
+    multisigAddress = new PublicKey(multisig);
+  } catch (error) {
+    return { error: `Multisig address ${JSON.stringify(multisig)} is malformed` };
+  }
+
+  if (!Number.isInteger(vaultIndex) || vaultIndex < 0 || vaultIndex > 255) {
+    return { error: `Vault index ${vaultIndex} is out of range` };
+  }
+  if (getSquadsVaultAddress(multisigAddress, vaultIndex).toBase58() !== vault) {
+    return { error: `${vault} is not vault ${vaultIndex} of multisig ${multisig}` };
+  }
+
+  const account = await fetchAccount(multisigAddress);
+  if (!account || !account.owner.equals(SQUADS_PROGRAM_ID)) {
+    return { error: `${multisig} is not a Squads multisig` };
+  }
+
+  let parsed: SquadsMultisig;
+  try {
+    parsed = parseSquadsMultisig(account.data);
+  } catch (error) {
+    return { error: `${multisig} is not a Squads multisig: ${error.message}` };
+  }
+
+  const membership = parsed.members.find(({ key }) => key.toBase58() === member);
+  if (!membership) {
+    return { error: `${member} is not a member of multisig ${multisig}` };
+  }
+  if ((membership.permissions & requiredPermissions) !== requiredPermissions) {
+    return { error: `${member} lacks the permissions required to sign in for multisig ${multisig}` };
+  }
+
+  return { multisig: parsed };
+};
+
+export default verifyMultisigMember;
@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+import { SessionClaims, SessionManager, signSessionToken, verifySessionToken } from './sessions';
+
+const SECRET = 'secret';
+// Whole seconds, as in the claims; stores expire records by the clock, so this is now
+const NOW = Math.floor(Date.now() / 1000) * 1000;
+
+const claims: SessionClaims = {
+  sub: 'address',
+  chain: 'solana:devnet',
+  iat: NOW / 1000,
+  exp: NOW / 1000 + 60,
+  jti: 'id',
+};
+
+const identity = { address: 'address', chainId: 'solana:devnet' };
+
+describe('verifySessionToken', () => {
+  it('returns the claims of a valid token', () => {
+    expect(verifySessionToken(signSessionToken(claims, SECRET), SECRET, NOW)).toEqual(claims);
+  });
+
+  it('rejects a token with tampered claims', () => {
+    const [header, , signature] = signSessionToken(claims, SECRET).split('.');
+    const payload = Buffer.from(JSON.stringify({ ...claims, sub: 'attacker' })).toString('base64url');
+
+    expect(verifySessionToken(`${header}.${payload}.${signature}`, SECRET, NOW)).toBeNull();
+  });
+
+  it('rejects a token signed with another secret', () => {
+    expect(verifySessionToken(signSessionToken(claims, 'other'), SECRET, NOW)).toBeNull();
+  });
+
+  it('rejects an expired token', () => {
+    expect(verifySessionToken(signSessionToken(claims, SECRET), SECRET, NOW + 60 * 1000)).toBeNull();
+  });
+
+  it('rejects a malformed token', () => {
+    expect(verifySessionToken('not.a-token', SECRET, NOW)).toBeNull();
+  });
+});
+
+describe('SessionManager', () => {
+  let sessions: SessionManager;
+
+  beforeEach(() => {
+    sessions = new SessionManager(SECRET, 60 * 1000);
+  });
+
+  it('issues a session whose token verifies', async () => {
+    const session = await sessions.issue(identity, NOW);
+
+    expect(session).toMatchObject({ ...identity, expiresAt: NOW + 60 * 1000 });
+    expect(await sessions.verify(session.token, NOW)).toMatchObject({ sub: 'address', chain: 'solana:devnet' });
+  });
+
+  it('refreshes a token only once, revoking it', async () => {
+    const { token } = await sessions.issue(identity, NOW);
+
+    const refreshed = await sessions.refresh(token, NOW + 1000);
+    expect(refreshed).toMatchObject({ ...identity, expiresAt: NOW + 61 * 1000 });
+    expect(await sessions.refresh(token, NOW + 1000)).toBeNull();
+    expect(await sessions.verify(token, NOW + 1000)).toBeNull();
+    expect(await sessions.verify(refreshed.token, NOW + 1000)).not.toBeNull();
+  });
+
+  it('does not refresh an expired token', async () => {
+    const { token } = await sessions.issue(identity, NOW);
+
+    expect(await sessions.refresh(token, NOW + 60 * 1000)).toBeNull();
+  });
+
+  it('revokes a token', async () => {
+    const { token } = await sessions.issue(identity, NOW);
+    await sessions.revoke(token, NOW);
+
+    expect(await sessions.verify(token, NOW)).toBeNull();
+    expect(await sessions.refresh(token, NOW)).toBeNull();
+  });
+
+  it('does not accept a token it did not issue', async () => {
+    const { token } = await new SessionManager(SECRET, 60 * 1000).issue(identity, NOW);
+
+    expect(await sessions.verify(token, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+
+import { Capabilities, Session } from '../src/types';
+
+import { MemoryStore, SessionStore } from './stores';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+export interface SessionClaims {
+  /** Address of the signed-in account */
+  sub: string;
+  chain: string;
+  /** For a multisig sign-in, the member key that signed for the vault `sub` */
+  signer?: string;
+  /** What the sign-in granted, see `Capabilities` */
+  capabilities?: Capabilities;
+  /** Issued at and expiry, in seconds since the epoch */
+  iat: number;
+  exp: number;
+  /** Unique token id, used for revocation */
+  jti: string;
+}
+
+/** Who a session is issued to */
+export type SessionIdentity = Pick<Session, 'address' | 'chainId' | 'signer' | 'capabilities'>;
+
+// =============================================================================
+// Tokens
+// =============================================================================
+
+const HEADER = { alg: 'HS256', typ: 'JWT' };
+
+const encode = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const hmac = (data: string, secret: string): string => {
+  return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+};
+
+/**
+ * Signs session claims into an HS256 JWT
+ * @param   {SessionClaims} claims the session claims
+ * @param   {String}        secret the HMAC secret
+ * @returns {String}               a JWT
+ */
+export const signSessionToken = (claims: SessionClaims, secret: string): string => {
+  const data = `${encode(HEADER)}.${encode(claims)}`;
+  return `${data}.${hmac(data, secret)}`;
+};
+
+/**
+ * Checks the signature and expiry of a session JWT
+ * @param   {String}        token  a JWT
+ * @param   {String}        secret the HMAC secret
+ * @param   {Number}        now    the current time, in milliseconds
+ * @returns {SessionClaims}        the claims, or null if the token is invalid or expired
+ */
+export const verifySessionToken = (token: string, secret: string, now = Date.now()): SessionClaims | null => {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  const expected = Buffer.from(hmac(`${header}.${payload}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const claims: SessionClaims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    return claims.exp * 1000 > now ? claims : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// =============================================================================
+// Sessions
+// =============================================================================
+
+/**
+ * Issues, refreshes and revokes session tokens. Every issued session is kept in a store
+ * until it expires, and a token is only valid while its session is, so revoking deletes it.
+ */
+export class SessionManager {
+  /**
+   * @param {String}       secret the HMAC secret tokens are signed with
+   * @param {Number}       ttl    how long a session lasts, in milliseconds
+   * @param {SessionStore} store  where active sessions are kept, in memory by default
+   */
+  constructor(
+    private readonly secret: string,
+    private readonly ttl: number,
+    private readonly store: SessionStore = new MemoryStore()
+  ) {}
+
+  async issue({ address, chainId, signer, capabilities }: SessionIdentity, now = Date.now()): Promise<Session> {
+    const claims: SessionClaims = {
+      sub: address,
+      chain: chainId,
+      ...(signer && { signer }),
+      ...(capabilities && { capabilities }),
+      iat: Math.floor(now / 1000),
+      exp: Math.floor((now + this.ttl) / 1000),
+      jti: crypto.randomBytes(16).toString('hex'),
+    };
+    const expiresAt = claims.exp * 1000;
+
+    const identity = { address, chainId, ...(signer && { signer }), ...(capabilities && { capabilities }) };
+    await this.store.save(claims.jti, { ...identity, expiresAt });
+    return { token: signSessionToken(claims, this.secret), ...identity, expiresAt };
+  }
+
+  async verify(token: string, now = Date.now()): Promise<SessionClaims | null> {
+    const claims = verifySessionToken(token, this.secret, now);
+    if (!claims || !(await this.store.get(claims.jti))) return null;
+    return claims;
+  }
+
+  /** Revokes the token and issues a new one for the same account; a token can only be refreshed once */
+  async refresh(token: string, now = Date.now()): Promise<Session | null> {
+    const claims = verifySessionToken(token, this.secret, now);
+    if (!claims || !(await this.store.consume(claims.jti))) return null;
+    const { sub: address, chain: chainId, signer, capabilities } = claims;
+    return this.issue({ address, chainId, signer, capabilities }, now);
+  }
+
+  async revoke(token: string, now = Date.now()): Promise<void> {
+    const claims = verifySessionToken(token, this.secret, now);
+    if (claims) await this.store.consume(claims.jti);
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * @jest-environment node
+ */
+import { ed25519 } from '@noble/curves/ed25519';
+import { Keypair, PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js';
+import { SolanaSignInInput } from '@solana/wallet-standard-features';
+import bs58 from 'bs58';
+
+import { MOCK_WALLET_SEED, MockWallet, MockWalletBehavior } from '../src/mocks/MockWallet';
+import { Delegation, SerializedSignInOutput } from '../src/types';
+import createSignInTransaction, { MEMO_PROGRAM_ID } from '../src/utils/createSignInTransaction';
+import { serializeSignInOutput } from '../src/utils/serializeSignInOutput';
+import { createSignInMessage } from '../src/utils/signInMessage';
+
+import { SignInConfig } from './config';
+import { issueSignInInput, verifyMultisigSignIn, verifySignInOutput, verifySignInTransaction } from './signIn';
+import { MemoryStore, NonceStore } from './stores';
+
+const config: SignInConfig = {
+  domain: 'localhost:3000',
+  uri: 'http://localhost:3000',
+  chainId: 'solana:devnet',
+  resources: [],
+  nonceTtl: 5 * 60 * 1000,
+  maxNonceAge: 5 * 60 * 1000,
+  maxDelegationTtl: 60 * 60 * 1000,
+  maxRequestAge: 60 * 1000,
+};
+
+const KEYPAIR = Keypair.fromSeed(MOCK_WALLET_SEED);
+const ADDRESS = KEYPAIR.publicKey.toBase58();
+
+const DELEGATION: Delegation = {
+  sessionKey: Keypair.fromSeed(new Uint8Array(32).fill(4)).publicKey.toBase58(),
+  scope: ['sign-message'],
+  expirationTime: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+};
+
+const signIn = async (
+  input: SolanaSignInInput,
+  behavior: MockWalletBehavior = 'approve'
+): Promise<SerializedSignInOutput> => {
+  const [output] = await new MockWallet({ behavior }).features['solana:signIn'].signIn(input);
+  return serializeSignInOutput(output);
+};
+
+describe('verifySignInOutput', () => {
+  let store: NonceStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+  });
+
+  it('verifies an output signed for an issued input', async () => {
+    const output = await signIn(await issueSignInInput(store, config));
+
+    expect(await verifySignInOutput(store, output)).toEqual({
+      verified: true,
+      address: ADDRESS,
+      chainId: 'solana:devnet',
+    });
+  });
+
+  it('rejects an output replayed after its nonce was consumed', async () => {
+    const output = await signIn(await issueSignInInput(store, config));
+    await verifySignInOutput(store, output);
+
+    expect(await verifySignInOutput(store, output)).toEqual({
+      verified: false,
+      error: 'Nonce is unknown, has expired or has already been used',
+    });
+  });
+
+  it('rejects an output for a nonce it did not issue', async () => {
+    const output = await signIn(await issueSignInInput(new MemoryStore(), config));
+
+    expect((await verifySignInOutput(store, output)).error).toBe(
+      'Nonce is unknown, has expired or has already been used'
+    );
+  });
+
+  it('rejects an output for a nonce issued for another domain', async () => {
+    const output = await signIn(await issueSignInInput(store, config), 'alterDomain');
+
+    expect(await verifySignInOutput(store, output)).toEqual({
+      verified: false,
+      error: 'Nonce was issued for localhost:3000, not wallet-localhost:3000',
+    });
+  });
+
+  it('rejects an output whose nonce is older than the maximum age', async () => {
+    const input = await issueSignInInput(store, config);
+    const record = await store.get(input.nonce);
+    await store.save(input.nonce, { ...record, issuedAt: Date.now() - 2 * 60 * 1000 });
+    const output = await signIn(input);
+
+    expect(await verifySignInOutput(store, output, { maxNonceAge: 60 * 1000 })).toEqual({
+      verified: false,
+      error: 'Nonce is older than 60 seconds',
+    });
+  });
+
+  it('rejects an output signed by another key than the account', async () => {
+    const output = await signIn(await issueSignInInput(store, config), 'wrongKey');
+
+    expect(await verifySignInOutput(store, output)).toEqual({ verified: false, error: 'Sign In verification failed!' });
+  });
+
+  it('rejects an output claiming another address than the message', async () => {
+    const output = await signIn(await issueSignInInput(store, config));
+    const address = Keypair.fromSeed(new Uint8Array(32).fill(3)).publicKey.toBase58();
+
+    expect((await verifySignInOutput(store, { ...output, account: { ...output.account, address } })).error).toBe(
+      `Signed message is for ${ADDRESS}, not ${address}`
+    );
+  });
+
+  it('rejects a message for an address signed by another key', async () => {
+    const attacker = Keypair.fromSeed(new Uint8Array(32).fill(3));
+    const input = await issueSignInInput(store, config);
+    const signedMessage = createSignInMessage({ ...input, domain: config.domain, address: ADDRESS });
+    const output = serializeSignInOutput({
+      account: { address: ADDRESS, publicKey: attacker.publicKey.toBytes(), chains: [], features: [] },
+      signedMessage,
+      signature: ed25519.sign(signedMessage, attacker.secretKey.slice(0, 32)),
+    });
+
+    expect(await verifySignInOutput(store, output)).toEqual({
+      verified: false,
+      error: `Signed message is not signed by ${ADDRESS}`,
+    });
+  });
+});
+
+describe('verifySignInTransaction', () => {
+  let store: NonceStore;
+
+  /** Signs the transaction as the wallet would, and serializes it as the client posts it */
+  const sign = (transaction: Transaction): string => {
+    transaction.sign(KEYPAIR);
+    return bs58.encode(transaction.serialize());
+  };
+
+  beforeEach(() => {
+    store = new MemoryStore();
+  });
+
+  it('verifies a signed sign-in memo transaction', async () => {
+    const input = await issueSignInInput(store, config);
+    const transaction = createSignInTransaction({ ...input, domain: config.domain }, KEYPAIR.publicKey);
+
+    expect(await verifySignInTransaction(store, sign(transaction))).toEqual({
+      verified: true,
+      address: ADDRESS,
+      chainId: 'solana:devnet',
+    });
+  });
+
+  it('rejects a memo with accounts', async () => {
+    const input = await issueSignInInput(store, config);
+    const transaction = createSignInTransaction({ ...input, domain: config.domain }, KEYPAIR.publicKey);
+    const [memo] = transaction.instructions;
+    transaction.instructions = [
+      new TransactionInstruction({
+        programId: MEMO_PROGRAM_ID,
+        keys: [{ pubkey: KEYPAIR.publicKey, isSigner: true, isWritable: true }],
+        data: memo.data,
+      }),
+    ];
+
+    expect(await verifySignInTransaction(store, sign(transaction))).toEqual({
+      verified: false,
+      error: 'Signed transaction must only contain the sign-in memo, without accounts',
+    });
+  });
+
+  it('rejects a transaction with a blockhash it could be sent with', async () => {
+    const input = await issueSignInInput(store, config);
+    const transaction = createSignInTransaction({ ...input, domain: config.domain }, KEYPAIR.publicKey);
+    transaction.recentBlockhash = new PublicKey(new Uint8Array(32).fill(7)).toBase58();
+
+    expect((await verifySignInTransaction(store, sign(transaction))).verified).toBe(false);
+  });
+
+  it('rejects a transaction delegating to a session key, as no delegated request could be verified against it', async () => {
+    const input = await issueSignInInput(store, config, DELEGATION);
+    const transaction = createSignInTransaction({ ...input, domain: config.domain }, KEYPAIR.publicKey);
+
+    expect(await verifySignInTransaction(store, sign(transaction))).toEqual({
+      verified: false,
+      error: 'A sign-in transaction cannot delegate to a session key',
+    });
+  });
+});
+
+describe('verifyMultisigSignIn', () => {
+  it('rejects a sign-in delegating to a session key, as a vault cannot sign delegated requests', async () => {
+    const store: NonceStore = new MemoryStore();
+    const output = await signIn(await issueSignInInput(store, config, DELEGATION));
+    const membership = { multisig: Keypair.fromSeed(new Uint8Array(32).fill(5)).publicKey.toBase58() };
+
+    expect(await verifyMultisigSignIn(store, output, membership, async () => null)).toEqual({
+      verified: false,
+      error: 'A multisig sign-in cannot delegate to a session key',
+    });
+  });
+});
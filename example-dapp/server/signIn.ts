@@ -0,0 +1,301 @@
+import bs58 from 'bs58';
+import crypto from 'crypto';
+import { Transaction } from '@solana/web3.js';
+import { SolanaSignInInput, SolanaSignInOutput } from '@solana/wallet-standard-features';
+import { verifySignIn } from '@solana/wallet-standard-util';
+
+import { Capabilities, Delegation, SerializedSignInOutput, SignInVerification } from '../src/types';
+import { checkRecapStatement, findCapabilities } from '../src/utils/capabilities';
+import createSignInInput from '../src/utils/createSignInInput';
+import { MEMO_PROGRAM_ID, SIGN_IN_TRANSACTION_BLOCKHASH } from '../src/utils/createSignInTransaction';
+import { createDelegationResource, findDelegation } from '../src/utils/delegation';
+import { deserializeSignInOutput } from '../src/utils/serializeSignInOutput';
+import { SignInMessage, compareSignInMessage, parseSignInMessage } from '../src/utils/signInMessage';
+
+import { SignInConfig } from './config';
+import verifyMultisigMember, { AccountFetcher, MultisigMembership } from './multisig';
+import { NonceRecord, NonceStore } from './stores';
+
+/**
+ * Generates a random alphanumeric nonce (EIP-4361 requires at least 8 characters)
+ * @returns {String} a nonce
+ */
+export const generateNonce = (): string => {
+  return crypto.randomBytes(16).toString('hex');
+};
+
+/**
+ * Creates a sign-in input with a fresh nonce and records it in the store
+ * @param   {NonceStore}        store      where issued nonces are kept until consumed
+ * @param   {SignInConfig}      config     the domain, URI, chain, statement and capabilities to sign in with
+ * @param   {Delegation}        delegation a session key to delegate to, added to the resources
+ * @returns {SolanaSignInInput}            the input the client passes to the wallet
+ */
+export const issueSignInInput = async (
+  store: NonceStore,
+  config: SignInConfig,
+  delegation?: Delegation
+): Promise<SolanaSignInInput> => {
+  const nonce = generateNonce();
+  const issuedAt = new Date();
+
+  const input = createSignInInput({
+    domain: config.domain,
+    uri: config.uri,
+    statement: config.statement,
+    chainId: config.chainId,
+    nonce,
+    issuedAt,
+    expiresIn: config.nonceTtl,
+    resources: delegation ? [...config.resources, createDelegationResource(delegation)] : config.resources,
+    capabilities: config.capabilities,
+  });
+
+  await store.save(nonce, {
+    nonce,
+    domain: config.domain,
+    issuedAt: issuedAt.getTime(),
+    expiresAt: issuedAt.getTime() + config.nonceTtl,
+    input,
+  });
+  return input;
+};
+
+type MessageCheck = { record: NonceRecord; capabilities: Capabilities | null } | { error: string };
+
+export interface VerifyOptions {
+  /** How old a nonce may be, in milliseconds; by default it is valid until it expires from the store */
+  maxNonceAge?: number;
+}
+
+/**
+ * Consumes the nonce of a signed message and checks the message against the input issued for it
+ * @param   {NonceStore}    store   where issued nonces are kept until consumed
+ * @param   {SignInMessage} parsed  the signed message
+ * @param   {VerifyOptions} options the maximum nonce age
+ * @returns {MessageCheck}          the nonce record and the capabilities granted, or why the message was rejected
+ */
+const checkSignInMessage = async (
+  store: NonceStore,
+  parsed: SignInMessage,
+  { maxNonceAge = Infinity }: VerifyOptions
+): Promise<MessageCheck> => {
+  if (!parsed.nonce) {
+    return { error: 'Signed message does not contain a nonce' };
+  }
+
+  const record = await store.consume(parsed.nonce);
+  if (!record) {
+    return { error: 'Nonce is unknown, has expired or has already been used' };
+  }
+  if (Date.now() - record.issuedAt > maxNonceAge) {
+    return { error: `Nonce is older than ${maxNonceAge / 1000} seconds` };
+  }
+  if (record.domain !== parsed.domain) {
+    return { error: `Nonce was issued for ${record.domain}, not ${parsed.domain}` };
+  }
+  const [mismatch] = compareSignInMessage(record.input, parsed);
+  if (mismatch) {
+    return {
+      error: `Signed ${mismatch.field} ${JSON.stringify(mismatch.actual)} does not match ${JSON.stringify(mismatch.expected)}`,
+    };
+  }
+
+  let capabilities: Capabilities | null;
+  try {
+    capabilities = findCapabilities(parsed.resources);
+  } catch (error) {
+    return { error: `Signed resources are malformed: ${error.message}` };
+  }
+  if (capabilities && !checkRecapStatement(parsed.statement, capabilities)) {
+    return { error: 'Signed statement does not describe the capabilities its ReCap grants' };
+  }
+
+  return { record, capabilities };
+};
+
+type OutputCheck =
+  | { output: SolanaSignInOutput; parsed: SignInMessage; record: NonceRecord; capabilities: Capabilities | null }
+  | { error: string };
+
+/**
+ * Consumes the nonce of a sign-in output, then checks its message and that its signature is by its public key.
+ * The address the output claims must be the one in the message, but is not yet tied to the public key.
+ * @param   {NonceStore}             store      where issued nonces are kept until consumed
+ * @param   {SerializedSignInOutput} serialized the output posted by the client
+ * @param   {VerifyOptions}          options    the maximum nonce age
+ * @returns {OutputCheck}                       the output, its message, nonce record and capabilities,
+ *                                              or why it was rejected
+ */
+const checkSignInOutput = async (
+  store: NonceStore,
+  serialized: SerializedSignInOutput,
+  options: VerifyOptions
+): Promise<OutputCheck> => {
+  let output: SolanaSignInOutput;
+  try {
+    output = deserializeSignInOutput(serialized);
+  } catch (error) {
+    return { error: `Sign-in output is malformed: ${error.message}` };
+  }
+
+  let parsed: SignInMessage;
+  try {
+    parsed = parseSignInMessage(output.signedMessage);
+  } catch (error) {
+    return { error: `Signed message is malformed: ${error.message}` };
+  }
+
+  const check = await checkSignInMessage(store, parsed, options);
+  if ('error' in check) {
+    return check;
+  }
+  if (parsed.address !== output.account.address) {
+    return { error: `Signed message is for ${parsed.address}, not ${output.account.address}` };
+  }
+  if (!verifySignIn(check.record.input, output)) {
+    return { error: 'Sign In verification failed!' };
+  }
+
+  return { output, parsed, record: check.record, capabilities: check.capabilities };
+};
+
+/**
+ * Verifies a sign-in output against the input issued for its nonce.
+ * The nonce is consumed before any other check, so a failed attempt cannot be retried.
+ * @param   {NonceStore}             store      where issued nonces are kept until consumed
+ * @param   {SerializedSignInOutput} serialized the output posted by the client
+ * @param   {VerifyOptions}          options    the maximum nonce age
+ * @returns {SignInVerification}                the verification result
+ */
+export const verifySignInOutput = async (
+  store: NonceStore,
+  serialized: SerializedSignInOutput,
+  options: VerifyOptions = {}
+): Promise<SignInVerification> => {
+  const check = await checkSignInOutput(store, serialized, options);
+  if ('error' in check) {
+    return { verified: false, error: check.error };
+  }
+
+  const { output, parsed, record, capabilities } = check;
+  // Only a multisig sign-in may be signed by a key other than that of the address
+  if (bs58.encode(new Uint8Array(output.account.publicKey)) !== output.account.address) {
+    return { verified: false, error: `Signed message is not signed by ${output.account.address}` };
+  }
+
+  // The input was issued by the server, so a delegation in its resources was validated then
+  const delegation = findDelegation(record.input.resources);
+  return {
+    verified: true,
+    address: output.account.address,
+    chainId: parsed.chainId ?? record.input.chainId,
+    ...(delegation && { delegation }),
+    ...(capabilities && { capabilities }),
+  };
+};
+
+/**
+ * Verifies a sign-in output for the vault of a Squads multisig. A vault is a PDA without a private key,
+ * so the output is signed by a member of the multisig instead, and claims the vault's address.
+ * @param   {NonceStore}             store        where issued nonces are kept until consumed
+ * @param   {SerializedSignInOutput} serialized   the output posted by the client, signed by the member
+ * @param   {MultisigMembership}     membership   the multisig, vault index and required permissions
+ * @param   {AccountFetcher}         fetchAccount reads the multisig account
+ * @param   {VerifyOptions}          options      the maximum nonce age
+ * @returns {SignInVerification}                  the verification result, with the vault as `address`
+ *                                                and the member as `signer`
+ */
+export const verifyMultisigSignIn = async (
+  store: NonceStore,
+  serialized: SerializedSignInOutput,
+  membership: MultisigMembership,
+  fetchAccount: AccountFetcher,
+  options: VerifyOptions = {}
+): Promise<SignInVerification> => {
+  const check = await checkSignInOutput(store, serialized, options);
+  if ('error' in check) {
+    return { verified: false, error: check.error };
+  }
+
+  const { output, parsed, record, capabilities } = check;
+  // Delegated requests are verified against a sign-in signed by the key of its address, which a vault has not
+  if (findDelegation(record.input.resources)) {
+    return { verified: false, error: 'A multisig sign-in cannot delegate to a session key' };
+  }
+  const vault = output.account.address;
+  const signer = bs58.encode(new Uint8Array(output.account.publicKey));
+  const member = await verifyMultisigMember(fetchAccount, vault, signer, membership);
+  if ('error' in member) {
+    return { verified: false, error: member.error };
+  }
+
+  return {
+    verified: true,
+    address: vault,
+    signer,
+    chainId: parsed.chainId ?? record.input.chainId,
+    ...(capabilities && { capabilities }),
+  };
+};
+
+/**
+ * Verifies a sign-in transaction, the fallback for wallets that cannot sign messages. The transaction must
+ * only carry a memo with the sign-in message and no accounts, be signed by the address in it as the fee payer,
+ * and have the dummy blockhash of `createSignInTransaction`, so it can never be sent.
+ * @param   {NonceStore}         store      where issued nonces are kept until consumed
+ * @param   {String}             serialized the base58-encoded signed transaction posted by the client
+ * @param   {VerifyOptions}      options    the maximum nonce age
+ * @returns {SignInVerification}            the verification result
+ */
+export const verifySignInTransaction = async (
+  store: NonceStore,
+  serialized: string,
+  options: VerifyOptions = {}
+): Promise<SignInVerification> => {
+  let transaction: Transaction;
+  try {
+    transaction = Transaction.from(bs58.decode(serialized));
+  } catch (error) {
+    return { verified: false, error: `Signed transaction is malformed: ${error.message}` };
+  }
+
+  // Anything but a single memo could move funds if the signed transaction were ever sent
+  const [memo, ...others] = transaction.instructions;
+  if (!memo || others.length > 0 || !memo.programId.equals(MEMO_PROGRAM_ID) || memo.keys.length > 0) {
+    return { verified: false, error: 'Signed transaction must only contain the sign-in memo, without accounts' };
+  }
+  // A real blockhash would let anyone who sees the transaction send it, charging its fee payer
+  if (transaction.recentBlockhash !== SIGN_IN_TRANSACTION_BLOCKHASH) {
+    return { verified: false, error: `Signed transaction must have the blockhash ${SIGN_IN_TRANSACTION_BLOCKHASH}` };
+  }
+
+  let parsed: SignInMessage;
+  try {
+    parsed = parseSignInMessage(memo.data);
+  } catch (error) {
+    return { verified: false, error: `Signed memo is malformed: ${error.message}` };
+  }
+
+  const check = await checkSignInMessage(store, parsed, options);
+  if ('error' in check) {
+    return { verified: false, error: check.error };
+  }
+  // Delegated requests are verified against a signed sign-in output, which a transaction sign-in has not
+  if (findDelegation(check.record.input.resources)) {
+    return { verified: false, error: 'A sign-in transaction cannot delegate to a session key' };
+  }
+  if (!transaction.feePayer || transaction.feePayer.toBase58() !== parsed.address) {
+    return { verified: false, error: `Signed transaction is not paid for by ${parsed.address}` };
+  }
+  if (!transaction.verifySignatures()) {
+    return { verified: false, error: 'Sign In verification failed!' };
+  }
+
+  return {
+    verified: true,
+    address: parsed.address,
+    chainId: parsed.chainId ?? check.record.input.chainId,
+    ...(check.capabilities && { capabilities: check.capabilities }),
+  };
+};
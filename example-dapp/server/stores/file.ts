@@ -0,0 +1,62 @@
+import fs from 'fs';
+
+import { ExpiringRecord, ExpiringStore } from './types';
+
+/**
+ * Persists records to a JSON file so they survive a server restart.
+ * Reads and writes are synchronous, which keeps `consume` atomic within one process;
+ * the file is replaced by a rename, so a crash mid-write never leaves it half written.
+ */
+export class FileStore<T extends ExpiringRecord> implements ExpiringStore<T> {
+  constructor(private readonly path: string) {}
+
+  async save(key: string, record: T): Promise<void> {
+    const records = this.read();
+    records[key] = record;
+    this.write(records);
+  }
+
+  async add(key: string, record: T): Promise<boolean> {
+    const records = this.read();
+    if (records[key]?.expiresAt > Date.now()) return false;
+
+    records[key] = record;
+    this.write(records);
+    return true;
+  }
+
+  async get(key: string): Promise<T | null> {
+    const record = this.read()[key];
+    return record && record.expiresAt > Date.now() ? record : null;
+  }
+
+  async consume(key: string): Promise<T | null> {
+    const records = this.read();
+    const record = records[key];
+    if (!record) return null;
+
+    delete records[key];
+    this.write(records);
+    return record.expiresAt > Date.now() ? record : null;
+  }
+
+  async sweep(now = Date.now()): Promise<void> {
+    const records = this.read();
+    const expired = Object.keys(records).filter((key) => records[key].expiresAt <= now);
+    if (!expired.length) return;
+
+    expired.forEach((key) => delete records[key]);
+    this.write(records);
+  }
+
+  private read(): Record<string, T> {
+    if (!fs.existsSync(this.path)) return {};
+    return JSON.parse(fs.readFileSync(this.path, 'utf8'));
+  }
+
+  private write(records: Record<string, T>) {
+    const temporaryPath = `${this.path}.tmp`;
+    fs.writeFileSync(temporaryPath, JSON.stringify(records));
+    fs.renameSync(temporaryPath, this.path);
+  }
+}
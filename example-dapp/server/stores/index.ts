@@ -0,0 +1,17 @@
+export { FileStore } from './file';
+export { MemoryStore } from './memory';
+export { RedisStore } from './redis';
+export type { RedisClient } from './redis';
+export { encodeCommand, parseReply, RedisError, RespClient } from './resp';
+export type { RespValue } from './resp';
+export { default as startSweeping } from './sweep';
+export type {
+  DelegationRecord,
+  DelegationStore,
+  ExpiringRecord,
+  ExpiringStore,
+  NonceRecord,
+  NonceStore,
+  SessionRecord,
+  SessionStore,
+} from './types';
@@ -0,0 +1,39 @@
+import { ExpiringRecord, ExpiringStore } from './types';
+
+/**
+ * Keeps records in memory, so they are lost on restart and not shared between processes.
+ * Every operation is synchronous under the hood, which keeps `consume` atomic.
+ */
+export class MemoryStore<T extends ExpiringRecord> implements ExpiringStore<T> {
+  private readonly records = new Map<string, T>();
+
+  async save(key: string, record: T): Promise<void> {
+    this.records.set(key, record);
+  }
+
+  async add(key: string, record: T): Promise<boolean> {
+    if (this.live(this.records.get(key))) return false;
+    this.records.set(key, record);
+    return true;
+  }
+
+  async get(key: string): Promise<T | null> {
+    return this.live(this.records.get(key));
+  }
+
+  async consume(key: string): Promise<T | null> {
+    const record = this.records.get(key);
+    this.records.delete(key);
+    return this.live(record);
+  }
+
+  async sweep(now = Date.now()): Promise<void> {
+    this.records.forEach((record, key) => {
+      if (record.expiresAt <= now) this.records.delete(key);
+    });
+  }
+
+  private live(record: T | undefined): T | null {
+    return record && record.expiresAt > Date.now() ? record : null;
+  }
+}
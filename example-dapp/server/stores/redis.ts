@@ -0,0 +1,59 @@
+import { ExpiringRecord, ExpiringStore } from './types';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+/** Anything that sends a Redis command, e.g. `RespClient` or a node-redis client */
+export interface RedisClient {
+  sendCommand(args: string[]): Promise<unknown>;
+}
+
+// =============================================================================
+// Implementation
+// =============================================================================
+
+/**
+ * Keeps records in Redis, so they are shared by every server process. Each record is a JSON string
+ * with a TTL, so Redis expires it by itself; `add` is a single `SET NX` and `consume` a single `GETDEL`
+ * (Redis 6.2 and later).
+ */
+export class RedisStore<T extends ExpiringRecord> implements ExpiringStore<T> {
+  /**
+   * @param {RedisClient} client the client to send commands with
+   * @param {String}      prefix prepended to every key, e.g. `siws:nonce:`
+   */
+  constructor(private readonly client: RedisClient, private readonly prefix: string) {}
+
+  async save(key: string, record: T): Promise<void> {
+    const ttl = record.expiresAt - Date.now();
+    if (ttl <= 0) return;
+    await this.client.sendCommand(['SET', this.prefix + key, JSON.stringify(record), 'PX', String(ttl)]);
+  }
+
+  async add(key: string, record: T): Promise<boolean> {
+    const ttl = record.expiresAt - Date.now();
+    if (ttl <= 0) return false;
+    const value = JSON.stringify(record);
+    const reply = await this.client.sendCommand(['SET', this.prefix + key, value, 'PX', String(ttl), 'NX']);
+    return reply === 'OK';
+  }
+
+  async get(key: string): Promise<T | null> {
+    return this.parse(await this.client.sendCommand(['GET', this.prefix + key]));
+  }
+
+  async consume(key: string): Promise<T | null> {
+    return this.parse(await this.client.sendCommand(['GETDEL', this.prefix + key]));
+  }
+
+  async sweep(): Promise<void> {
+    // Redis expires the records by itself
+  }
+
+  private parse(value: unknown): T | null {
+    if (typeof value !== 'string') return null;
+    const record: T = JSON.parse(value);
+    return record.expiresAt > Date.now() ? record : null;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * @jest-environment node
+ */
+import { MockRedis } from '../mocks/MockRedis';
+import { encodeCommand, parseReply, RedisError, RespClient } from './resp';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('encodeCommand', () => {
+  it('encodes bulk strings by their byte length', () => {
+    expect(encodeCommand(['SET', 'clé', 'v'])).toBe('*3\r\n$3\r\nSET\r\n$4\r\nclé\r\n$1\r\nv\r\n');
+  });
+});
+
+describe('parseReply', () => {
+  it.each([
+    ['a simple string', '+OK\r\n', 'OK'],
+    ['an integer', ':42\r\n', 42],
+    ['a bulk string', '$5\r\nhello\r\n', 'hello'],
+    ['a null bulk string', '$-1\r\n', null],
+    ['an array', '*2\r\n$1\r\na\r\n*1\r\n:1\r\n', ['a', [1]]],
+  ])('parses %s', (_, reply, value) => {
+    expect(parseReply(Buffer.from(reply))).toEqual({ value, offset: Buffer.byteLength(reply) });
+  });
+
+  it('parses an error reply as a RedisError', () => {
+    const reply = parseReply(Buffer.from('-ERR wrong\r\n'));
+
+    expect(reply?.value).toBeInstanceOf(RedisError);
+    expect((reply?.value as RedisError).message).toBe('ERR wrong');
+  });
+
+  it('waits for a reply that has not been fully received', () => {
+    expect(parseReply(Buffer.from('$5\r\nhel'))).toBeNull();
+    expect(parseReply(Buffer.from('*2\r\n:1\r\n'))).toBeNull();
+  });
+
+  it('parses the reply at an offset', () => {
+    expect(parseReply(Buffer.from('+OK\r\n:1\r\n'), 5)).toEqual({ value: 1, offset: 9 });
+  });
+
+  it('throws on bytes that are not a reply', () => {
+    expect(() => parseReply(Buffer.from('?\r\n'))).toThrow(RedisError);
+  });
+});
+
+describe('RespClient', () => {
+  let redis: MockRedis;
+  let client: RespClient;
+
+  afterEach(async () => {
+    client.close();
+    await redis.close();
+  });
+
+  describe('without a password', () => {
+    let url: string;
+
+    beforeEach(async () => {
+      redis = new MockRedis();
+      url = await redis.listen();
+      client = new RespClient(url);
+    });
+
+    it('pipelines commands and resolves each with its own reply', async () => {
+      const replies = await Promise.all([
+        client.sendCommand(['SET', 'a', '1']),
+        client.sendCommand(['GET', 'a']),
+        client.sendCommand(['GETDEL', 'a']),
+        client.sendCommand(['GET', 'a']),
+      ]);
+
+      expect(replies).toEqual(['OK', '1', '1', null]);
+    });
+
+    it('rejects a command Redis fails with a RedisError, and carries on', async () => {
+      await expect(client.sendCommand(['FLUSHALL'])).rejects.toThrow(new RedisError("ERR unknown command 'FLUSHALL'"));
+      expect(await client.sendCommand(['GET', 'a'])).toBeNull();
+    });
+
+    it('selects the database of the URL', async () => {
+      client = new RespClient(`${url}/2`);
+      await client.sendCommand(['GET', 'a']);
+
+      expect(redis.commands).toEqual([
+        ['SELECT', '2'],
+        ['GET', 'a'],
+      ]);
+    });
+
+    it('reconnects on the next command after the connection was lost', async () => {
+      await client.sendCommand(['SET', 'a', '1']);
+      redis.disconnect();
+      await wait(50);
+
+      expect(await client.sendCommand(['GET', 'a'])).toBe('1');
+    });
+  });
+
+  describe('with a password', () => {
+    let url: URL;
+
+    beforeEach(async () => {
+      redis = new MockRedis('p@ss');
+      url = new URL(await redis.listen());
+    });
+
+    it('authenticates with the credentials of the URL before the first command', async () => {
+      client = new RespClient(`redis://user:p%40ss@${url.host}`);
+
+      expect(await client.sendCommand(['GET', 'a'])).toBeNull();
+      expect(redis.commands[0]).toEqual(['AUTH', 'user', 'p@ss']);
+    });
+
+    it('fails the commands after a failed authentication', async () => {
+      client = new RespClient(`redis://:wrong@${url.host}`);
+
+      await expect(client.sendCommand(['GET', 'a'])).rejects.toBeInstanceOf(Error);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import net from 'net';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+export type RespValue = string | number | null | RedisError | RespValue[];
+
+type PendingCommand = { resolve: (value: RespValue) => void; reject: (error: Error) => void };
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+export class RedisError extends Error {
+  name = 'RedisError';
+}
+
+// =============================================================================
+// Protocol
+// =============================================================================
+
+/**
+ * Encodes a command as a RESP array of bulk strings
+ * @param   {String[]} args the command and its arguments, e.g. `['GET', 'key']`
+ * @returns {String}        the encoded command
+ */
+export const encodeCommand = (args: string[]): string => {
+  return `*${args.length}\r\n${args.map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('')}`;
+};
+
+/**
+ * Parses the RESP2 reply at `start`
+ * @param   {Buffer} buffer the bytes received so far
+ * @param   {Number} start  where the reply starts
+ * @returns {Object}        the reply and where the next one starts, or null if it has not been fully received
+ * @throws  {RedisError} when the bytes are not a RESP reply
+ */
+export const parseReply = (buffer: Buffer, start = 0): { value: RespValue; offset: number } | null => {
+  const end = buffer.indexOf('\r\n', start);
+  if (end === -1) return null;
+
+  const line = buffer.toString('utf8', start + 1, end);
+  let offset = end + 2;
+
+  switch (String.fromCharCode(buffer[start])) {
+    case '+':
+      return { value: line, offset };
+    case '-':
+      return { value: new RedisError(line), offset };
+    case ':':
+      return { value: Number(line), offset };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, offset };
+      if (buffer.length < offset + length + 2) return null;
+      return { value: buffer.toString('utf8', offset, offset + length), offset: offset + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, offset };
+
+      const values: RespValue[] = [];
+      for (let i = 0; i < count; i++) {
+        const reply = parseReply(buffer, offset);
+        if (!reply) return null;
+        values.push(reply.value);
+        offset = reply.offset;
+      }
+      return { value: values, offset };
+    }
+    default:
+      throw new RedisError(`Unexpected reply type ${JSON.stringify(buffer.toString('utf8', start, start + 1))}`);
+  }
+};
+
+// =============================================================================
+// Client
+// =============================================================================
+
+/**
+ * A minimal client speaking the Redis protocol (RESP2) over TCP, so the server needs no Redis library.
+ * It connects on the first command, pipelines commands, and reconnects on the next command after the
+ * connection was lost. Works with Redis and anything compatible, e.g. Valkey, KeyDB or a local stand-in.
+ */
+export class RespClient {
+  private socket: net.Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+
+  /**
+   * @param {String} url e.g. `redis://:password@localhost:6379/0`
+   */
+  constructor(private readonly url: string) {}
+
+  /**
+   * Sends a command, with the same signature as `sendCommand` of node-redis
+   * @param   {String[]}  args the command and its arguments, e.g. `['GET', 'key']`
+   * @returns {RespValue}      the reply
+   * @throws  {RedisError} when Redis replies with an error
+   */
+  sendCommand(args: string[]): Promise<RespValue> {
+    const socket = this.socket ?? this.connect();
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  close() {
+    this.socket?.end();
+    this.socket = null;
+  }
+
+  private connect(): net.Socket {
+    const { hostname, port, username, password, pathname } = new URL(this.url);
+    const socket = net.createConnection({ host: hostname || 'localhost', port: Number(port) || 6379 });
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+
+    socket.on('data', (chunk) => this.receive(socket, chunk));
+    socket.on('error', (error) => this.disconnect(socket, error));
+    socket.on('close', () => this.disconnect(socket, new RedisError('Connection closed')));
+
+    // Writes are buffered until the socket connects, so these always precede the first command
+    const setup: string[][] = [];
+    if (password) setup.push(['AUTH', ...(username ? [username] : []), password].map(decodeURIComponent));
+    if (pathname.length > 1) setup.push(['SELECT', pathname.slice(1)]);
+    setup.forEach((args) => this.sendCommand(args).catch((error) => socket.destroy(error)));
+
+    return socket;
+  }
+
+  private receive(socket: net.Socket, chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    try {
+      let reply = parseReply(this.buffer);
+      while (reply) {
+        const { value, offset } = reply;
+        const command = this.pending.shift();
+        if (value instanceof RedisError) command?.reject(value);
+        else command?.resolve(value);
+
+        this.buffer = this.buffer.subarray(offset);
+        reply = parseReply(this.buffer);
+      }
+    } catch (error) {
+      socket.destroy(error);
+    }
+  }
+
+  private disconnect(socket: net.Socket, error: Error) {
+    if (this.socket !== socket) return;
+
+    this.socket = null;
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach((command) => command.reject(error));
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { MockRedis } from '../mocks/MockRedis';
+import { FileStore } from './file';
+import { MemoryStore } from './memory';
+import { RedisStore } from './redis';
+import { RespClient } from './resp';
+import { ExpiringRecord, ExpiringStore } from './types';
+
+interface TestRecord extends ExpiringRecord {
+  value: string;
+}
+
+interface TestStore {
+  store: ExpiringStore<TestRecord>;
+  cleanUp(): Promise<void>;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const record = (value: string, ttl = HOUR): TestRecord => ({ value, expiresAt: Date.now() + ttl });
+
+const createMemoryStore = async (): Promise<TestStore> => ({
+  store: new MemoryStore(),
+  cleanUp: async () => {},
+});
+
+const createFileStore = async (): Promise<TestStore> => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'siws-store-'));
+  return {
+    store: new FileStore(path.join(directory, 'records.json')),
+    cleanUp: async () => fs.rmSync(directory, { recursive: true, force: true }),
+  };
+};
+
+const createRedisStore = async (): Promise<TestStore> => {
+  const redis = new MockRedis();
+  const client = new RespClient(await redis.listen());
+  return {
+    store: new RedisStore(client, 'test:'),
+    cleanUp: async () => {
+      client.close();
+      await redis.close();
+    },
+  };
+};
+
+describe.each([
+  ['MemoryStore', createMemoryStore],
+  ['FileStore', createFileStore],
+  ['RedisStore', createRedisStore],
+])('%s', (_, createStore) => {
+  let store: ExpiringStore<TestRecord>;
+  let cleanUp: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ store, cleanUp } = await createStore());
+  });
+
+  afterEach(() => cleanUp());
+
+  it('returns a saved record until it is consumed, once', async () => {
+    const saved = record('a');
+    await store.save('key', saved);
+
+    expect(await store.get('key')).toEqual(saved);
+    expect(await store.consume('key')).toEqual(saved);
+    expect(await store.consume('key')).toBeNull();
+    expect(await store.get('key')).toBeNull();
+  });
+
+  it('hands a record to only one of concurrent consumers', async () => {
+    await store.save('key', record('a'));
+    const consumed = await Promise.all(Array.from({ length: 5 }, () => store.consume('key')));
+
+    expect(consumed.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('adds a record for a key only once', async () => {
+    const added = await Promise.all(['a', 'b', 'c'].map((value) => store.add('key', record(value))));
+
+    expect(added.filter(Boolean)).toHaveLength(1);
+    expect((await store.get('key'))?.value).toBe(['a', 'b', 'c'][added.indexOf(true)]);
+  });
+
+  it('treats an expired record as missing, so its key can be added again', async () => {
+    await store.save('key', record('a', 20));
+    await wait(40);
+
+    expect(await store.get('key')).toBeNull();
+    expect(await store.consume('key')).toBeNull();
+    expect(await store.add('key', record('b'))).toBe(true);
+  });
+});
+
+describe.each([
+  ['MemoryStore', createMemoryStore],
+  ['FileStore', createFileStore],
+])('%s sweep', (_, createStore) => {
+  it('deletes the records that expired by then, and only those', async () => {
+    const { store, cleanUp } = await createStore();
+    await store.save('soon', record('a', HOUR));
+    await store.save('later', record('b', 3 * HOUR));
+
+    await store.sweep(Date.now() + 2 * HOUR);
+
+    expect(await store.get('soon')).toBeNull();
+    expect(await store.get('later')).not.toBeNull();
+    await cleanUp();
+  });
+});
+
+describe('RedisStore', () => {
+  let redis: MockRedis;
+  let client: RespClient;
+
+  beforeEach(async () => {
+    redis = new MockRedis();
+    client = new RespClient(await redis.listen());
+  });
+
+  afterEach(async () => {
+    client.close();
+    await redis.close();
+  });
+
+  it('lets Redis expire the records, under the prefix', async () => {
+    await new RedisStore<TestRecord>(client, 'test:').add('key', record('a', 1000));
+
+    const [[name, key, value, px, ttl, nx]] = redis.commands;
+    expect([name, key, JSON.parse(value).value, px, nx]).toEqual(['SET', 'test:key', 'a', 'PX', 'NX']);
+    expect(Number(ttl)).toBeGreaterThan(900);
+    expect(Number(ttl)).toBeLessThanOrEqual(1000);
+  });
+
+  it('does not save a record that already expired', async () => {
+    const store = new RedisStore<TestRecord>(client, 'test:');
+
+    expect(await store.add('key', record('a', -1))).toBe(false);
+    await store.save('key', record('a', -1));
+    expect(redis.commands).toEqual([]);
+  });
+});
@@ -0,0 +1,19 @@
+import { ExpiringRecord, ExpiringStore } from './types';
+
+/**
+ * Sweeps expired records out of the stores in the background
+ * @param   {ExpiringStore[]} stores   the stores to sweep
+ * @param   {Number}          interval how often to sweep, in milliseconds
+ * @returns {Function}                 stops sweeping
+ */
+const startSweeping = (stores: ExpiringStore<ExpiringRecord>[], interval: number): (() => void) => {
+  const timer = setInterval(() => {
+    stores.forEach((store) => store.sweep().catch((error) => console.warn('Failed to sweep a store', error)));
+  }, interval);
+  // Sweeping alone must not keep the process alive
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
+
+export default startSweeping;
@@ -0,0 +1,65 @@
+import { SolanaSignInInput } from '@solana/wallet-standard-features';
+
+import { Capabilities } from '../../src/types';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+export interface ExpiringRecord {
+  /** When the record expires, in milliseconds since the epoch */
+  expiresAt: number;
+}
+
+/**
+ * A key-value store whose records expire. Every implementation treats an expired record as missing,
+ * and `add` and `consume` are atomic: of concurrent calls for one key, only one ever succeeds.
+ */
+export interface ExpiringStore<T extends ExpiringRecord> {
+  /** Saves the record under the key until it expires */
+  save(key: string, record: T): Promise<void>;
+  /** Saves the record unless the key already holds one, e.g. to accept a request id only once */
+  add(key: string, record: T): Promise<boolean>;
+  /** The record, or null if it is unknown or has expired */
+  get(key: string): Promise<T | null>;
+  /** Removes and returns the record, so it can only ever be consumed once */
+  consume(key: string): Promise<T | null>;
+  /** Deletes the records that expired by `now`, see `startSweeping` */
+  sweep(now?: number): Promise<void>;
+}
+
+export interface NonceRecord extends ExpiringRecord {
+  nonce: string;
+  domain: string;
+  /** When the nonce was issued, in milliseconds since the epoch */
+  issuedAt: number;
+  /** The exact input handed to the client, verified against the signed output */
+  input: SolanaSignInInput;
+}
+
+/** An issued session, keyed by the id of its token; deleting it revokes the token */
+export interface SessionRecord extends ExpiringRecord {
+  address: string;
+  chainId: string;
+  /** For a multisig sign-in, the member key that signed for the vault `address` */
+  signer?: string;
+  /** What the sign-in granted, see `Capabilities` */
+  capabilities?: Capabilities;
+}
+
+/** A session key a wallet delegated to; deleting it revokes the delegation */
+export interface DelegationRecord extends ExpiringRecord {
+  /** The wallet the session key acts for */
+  address: string;
+  sessionKey: string;
+  scope: string[];
+}
+
+/** Issued nonces, keyed by the nonce */
+export type NonceStore = ExpiringStore<NonceRecord>;
+
+/** Active sessions, keyed by the token id */
+export type SessionStore = ExpiringStore<SessionRecord>;
+
+/** Active delegations, keyed by the session key */
+export type DelegationStore = ExpiringStore<DelegationRecord>;
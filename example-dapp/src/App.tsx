@@ -1,22 +1,93 @@
-import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import styled from 'styled-components';
-import { useWallet, WalletProvider, ConnectionProvider } from '@solana/wallet-adapter-react';
-import { WalletAdapterNetwork } from '@solana/wallet-adapter-base';
+import { useConnection, useWallet, WalletProvider, ConnectionProvider } from '@solana/wallet-adapter-react';
 import { WalletModalProvider } from "@solana/wallet-adapter-react-ui";
+import { BrowserRouter, Route, Routes } from 'react-router-dom';
 import type { Adapter } from '@solana/wallet-adapter-base';
 import { type SolanaSignInInput } from '@solana/wallet-standard-features';
-import { verifySignIn } from '@solana/wallet-standard-util';
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
 
 import {
+  CLUSTER,
+  createDelegationSignInData,
+  createSessionKey,
   createSignInData,
   createSignInErrorData,
+  createSignInReport,
+  createSignInTransaction,
+  createVerifySignInRequest,
+  createVerifySignInTransactionRequest,
+  createVerifyDelegatedRequest,
+  describeError,
+  createAddressLookupTable,
+  createTransferTransaction,
+  createTransferTransactionV0,
+  extendAddressLookupTable,
+  FeatureNotSupportedError,
+  inspectSignIn,
+  encodeSignedMessage,
   signMessage,
   signIn,
+  signTransaction,
+  signAllTransactions,
+  signAndSendTransaction,
+  signAndSendTransactionV0WithLookupTable,
+  runCompatibilityCheck,
+  revokeDelegation,
+  runSignInErrorCase,
+  serializeSignInOutput,
+  signDelegatedRequest,
+  SignInVerificationError,
+  TimeoutError,
+  toLoggable,
+  trackConfirmation,
+  UserRejectedError,
+  verifySignedMessage,
+  ConfirmationAbortedError,
+  verifySignInWithServer,
+  verifySignInTransactionWithServer,
+  verifyDelegatedRequestWithServer,
+  SIGN_IN_ERROR_CASES,
+  WalletNotConnectedError,
+  withRpcError,
+} from './utils';
+import type {
+  ConfirmationResult,
+  SessionKey,
+  SignInErrorCase,
+  SignInInspection,
+  SignInReportOptions,
 } from './utils';
 
-import { TLog } from './types';
+import {
+  Delegation,
+  DisplayEncoding,
+  HttpRequest,
+  SerializedSignInOutput,
+  SignInReport,
+  SignInVerification,
+  TLog,
+  TLogEntry,
+  WalletCapabilities,
+} from './types';
 
-import { Logs, Sidebar, AutoConnectProvider } from './components';
+import {
+  Logs,
+  MembersArea,
+  Sidebar,
+  SignInInspector,
+  AutoConnectProvider,
+  SessionProvider,
+  useAutoConnect,
+  useSession,
+} from './components';
+
+import { registerMockWallet } from './mocks';
+
+// The mock wallet lets every flow run without a browser extension or network
+if (process.env.NODE_ENV !== 'production') {
+  registerMockWallet();
+}
 
 // =============================================================================
 // Styled Components
@@ -37,6 +108,17 @@ const StyledApp = styled.div`
 
 const message = 'To avoid digital dognappers, sign below to authenticate with CryptoCorgis.';
 
+// How often to check whether the slot advanced after extending a lookup table
+const LOOKUP_TABLE_WARMUP_POLLING_INTERVAL = 400; // about a slot
+const LOOKUP_TABLE_WARMUP_TIMEOUT = 30 * 1000; // thirty seconds
+
+// What a session key may sign, and for how long, once the wallet delegated to it
+const SESSION_KEY_SCOPE = ['sign-message'];
+const SESSION_KEY_EXPIRES_IN = '15m';
+
+// Encoding of signed messages in the logs until another is picked in the sidebar
+const DEFAULT_DISPLAY_ENCODING: DisplayEncoding = 'base58';
+
 // =============================================================================
 // Typedefs
 // =============================================================================
@@ -51,22 +133,112 @@ export type ConnectedMethods =
     onClick: () => Promise<void>;
   };
 
+/** A session key the connected wallet delegated to, with the sign-in proving it */
+interface DelegatedSessionKey {
+  address: string;
+  sessionKey: SessionKey;
+  delegation: Delegation;
+  proof: SerializedSignInOutput;
+}
 
-const StatelessApp = () => {
-  const { wallet, publicKey, connect, disconnect, signMessage: signMsg, signIn: siws } = useWallet();
-  const [logs, setLogs] = useState<TLog[]>([]);
+interface StatelessAppProps {
+  logs: TLogEntry[];
+  createLog: (log: TLog) => void;
+  clearLogs: () => void;
+}
 
-  const createLog = useCallback(
-    (log: TLog) => {
-      return setLogs((logs) => [...logs, log]);
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const getSignInExpectations = (): SignInReportOptions => ({
+  domain: window.location.host,
+  origin: window.location.origin,
+  chainId: CLUSTER.chainId,
+});
+
+const createReportLog = (report: SignInReport, address: string): TLog => {
+  const failed = report.checks.filter(({ passed }) => !passed).map(({ name }) => name);
+
+  return {
+    status: report.verified ? 'success' : 'error',
+    method: 'signIn',
+    message: report.verified ? `Sign In verified for ${address}` : `Sign In verification failed: ${failed.join(', ')}`,
+    report,
+  };
+};
+
+// User rejections are expected, so they are logged as warnings
+const createErrorLog = (method: TLog['method'], error: unknown): TLog => ({
+  status: error instanceof UserRejectedError ? 'warning' : 'error',
+  method,
+  message: error instanceof Error ? error.message : String(error),
+  error: describeError(error),
+});
+
+/**
+ * Signs in with a memo transaction that is signed but never sent, for wallets
+ * that cannot sign messages (e.g. Ledger), and verifies it with the server
+ */
+const signInWithTransaction = async (
+  publicKey: PublicKey,
+  signTx: WalletCapabilities['signTransaction']
+): Promise<{ verification: SignInVerification; request: HttpRequest }> => {
+  const signInData = await createSignInData();
+  const transaction = createSignInTransaction(signInData, publicKey);
+  const signedTransaction = await signTransaction(transaction, signTx);
+  return {
+    verification: await verifySignInTransactionWithServer(signedTransaction),
+    request: createVerifySignInTransactionRequest(signedTransaction),
+  };
+};
+
+const StatelessApp = ({ logs, createLog, clearLogs }: StatelessAppProps) => {
+  const { connection } = useConnection();
+  const {
+    wallet,
+    publicKey,
+    connect,
+    disconnect,
+    signMessage: signMsg,
+    signIn: siws,
+    signTransaction: signTx,
+    signAllTransactions: signAllTx,
+    sendTransaction,
+  } = useWallet();
+  const { session, sessions, setSession, setActiveAddress, logout } = useSession();
+  const { autoConnect, setAutoConnect } = useAutoConnect();
+  const [inspection, setInspection] = useState<SignInInspection | null>(null);
+  const [displayEncoding, setDisplayEncoding] = useState<DisplayEncoding>(DEFAULT_DISPLAY_ENCODING);
+  // Only ever kept in memory, so a reload drops it and the wallet must delegate again
+  const [delegated, setDelegated] = useState<DelegatedSessionKey | null>(null);
+
+  // Aborted on disconnect and unmount, so pending confirmations stop being tracked
+  const confirmationsRef = useRef(new AbortController());
+  useEffect(() => () => confirmationsRef.current.abort(), []);
+
+  const trackTransaction = useCallback(
+    async (
+      signature: string,
+      method: TLog['method'],
+      lastValidBlockHeight?: number
+    ): Promise<ConfirmationResult | undefined> => {
+      try {
+        return await trackConfirmation(signature, {
+          connection,
+          createLog,
+          method,
+          lastValidBlockHeight,
+          signal: confirmationsRef.current.signal,
+        });
+      } catch (error) {
+        // Aborting is already logged by the tracker
+        if (!(error instanceof ConfirmationAbortedError)) throw error;
+      }
     },
-    [setLogs]
+    [connection, createLog]
   );
 
-  const clearLogs = useCallback(() => {
-    setLogs([]);
-  }, [setLogs]);
-
   useEffect(() => {
     if (!publicKey || !wallet) return;
 
@@ -82,65 +254,444 @@ const StatelessApp = () => {
     if (!publicKey || !wallet) return;
 
     try {
-      const signedMessage = await signMessage(message, signMsg);
+      const signature = await signMessage(message, signMsg);
+      const verified = verifySignedMessage(message, signature, publicKey.toBytes());
+      const encoded = encodeSignedMessage(message, signature, publicKey.toBytes(), displayEncoding);
+      // A text message is shown as is, its signature and public key are still bytes
+      const bytesEncoding = displayEncoding === 'utf8' ? 'base58' : displayEncoding;
       createLog({
-        status: 'success',
+        status: verified ? 'success' : 'error',
         method: 'signMessage',
-        message: `Message signed: ${JSON.stringify(signedMessage)}`,
+        message: verified
+          ? `Message signature verified for ${encoded.publicKey}`
+          : `Message signature is NOT valid for ${encoded.publicKey}`,
+        messageTwo: `Signature (${bytesEncoding}): ${encoded.signature}`,
+        payload: { encoding: displayEncoding, ...encoded },
       });
-      return signedMessage;
     } catch (error) {
-      createLog({
-        status: 'error',
-        method: 'signMessage',
-        message: error.message,
-      });
+      createLog(createErrorLog('signMessage', error));
     }
-  }, [createLog, publicKey, signMsg, wallet]);
+  }, [createLog, displayEncoding, publicKey, signMsg, wallet]);
 
   /** SignIn */
   const handleSignIn = useCallback(async () => {
     if (!publicKey || !wallet) return;
-    const signInData = await createSignInData();
 
     try {
-      const {account, signedMessage, signature} = await signIn(signInData, siws);
-      const message = new TextDecoder().decode(signedMessage);
+      if (!siws) {
+        if (!signTx) {
+          throw new FeatureNotSupportedError(
+            'signIn',
+            'The wallet supports neither signing in nor signing transactions'
+          );
+        }
+
+        const { verification, request } = await signInWithTransaction(publicKey, signTx);
+        const { verified, error, session } = verification;
+        createLog({
+          status: verified ? 'success' : 'error',
+          method: 'signIn',
+          message: verified ? `Sign In transaction verified by the server for ${publicKey.toBase58()}` : error,
+          messageTwo: session && `Session valid until ${new Date(session.expiresAt).toLocaleString()}`,
+          payload: verification,
+          request,
+        });
+        if (session) setSession(session);
+        return;
+      }
+
+      const signInData = await createSignInData();
+      const output = await signIn(signInData, siws);
+      const { account } = output;
+      setInspection(inspectSignIn(signInData, output));
       createLog({
         status: 'success',
         method: 'signIn',
-        message: `Message signed: ${message} by ${account.address} with signature ${signature}`,
+        message: `Message signed by ${account.address}, see the Sign In Inspector for what was signed`,
+        payload: { input: signInData, output },
       });
+      const report = createSignInReport(signInData, output, getSignInExpectations());
+      createLog(createReportLog(report, account.address));
+
+      const verification = await verifySignInWithServer(output);
+      const { verified, error, session } = verification;
+      createLog({
+        status: verified ? 'success' : 'error',
+        method: 'signIn',
+        message: verified ? `Sign In verified by the server for ${account.address}` : error,
+        messageTwo: session && `Session valid until ${new Date(session.expiresAt).toLocaleString()}`,
+        payload: verification,
+        request: createVerifySignInRequest(output),
+      });
+      if (session) setSession(session);
     } catch (error) {
+      createLog(createErrorLog('signIn', error));
+    }
+  }, [createLog, publicKey, setSession, signTx, siws, wallet]);
+
+  /** Delegate: the wallet signs in once, authorizing a session key to sign in its place */
+  const handleDelegate = useCallback(async () => {
+    if (!publicKey || !wallet) return;
+
+    try {
+      if (!siws) throw new FeatureNotSupportedError('signIn');
+
+      const sessionKey = createSessionKey();
+      const signInData = await createDelegationSignInData(
+        sessionKey.publicKey,
+        SESSION_KEY_SCOPE,
+        SESSION_KEY_EXPIRES_IN
+      );
+      const output = await signIn(signInData, siws);
+      const verification = await verifySignInWithServer(output);
+      const { verified, error, session, delegation } = verification;
       createLog({
-        status: 'error',
+        status: verified && delegation ? 'success' : 'error',
         method: 'signIn',
-        message: error.message,
+        message: verified
+          ? `Delegated to session key ${sessionKey.publicKey}, for ${delegation?.scope.join(', ')}`
+          : error,
+        messageTwo: delegation && `Session key valid until ${new Date(delegation.expirationTime).toLocaleString()}`,
+        payload: verification,
+        request: createVerifySignInRequest(output),
       });
+      if (session) setSession(session);
+      if (verified && delegation) {
+        const proof = serializeSignInOutput(output);
+        setDelegated({ address: output.account.address, sessionKey, delegation, proof });
+      }
+    } catch (error) {
+      createLog(createErrorLog('signIn', error));
     }
-  }, [createLog, publicKey, siws, wallet]);
+  }, [createLog, publicKey, setSession, siws, wallet]);
 
-  /** SignInError */
-  const handleSignInError = useCallback(async () => {
+  /** Sign with the session key, without a wallet popup */
+  const handleSignWithSessionKey = useCallback(async () => {
     if (!publicKey || !wallet) return;
-    const signInData = await createSignInErrorData();
 
     try {
-      const {account, signedMessage, signature} = await signIn(signInData, siws);
+      if (!delegated || delegated.address !== publicKey.toBase58()) {
+        throw new Error('The connected account has not delegated to a session key');
+      }
+
+      const { sessionKey, proof } = delegated;
+      const request = signDelegatedRequest(sessionKey, proof, 'sign-message', { message });
+      const verification = await verifyDelegatedRequestWithServer(request);
       createLog({
-        status: 'success',
-        method: 'signMessage',
-        message: `Message signed: ${JSON.stringify(signedMessage)} by ${account.address} with signature ${signature}`,
+        status: verification.verified ? 'success' : 'error',
+        method: 'sessionKey',
+        message: verification.verified
+          ? `Message signed by session key ${sessionKey.publicKey} for ${verification.address}, verified by the server`
+          : verification.error,
+        payload: verification,
+        request: createVerifyDelegatedRequest(request),
       });
     } catch (error) {
+      createLog(createErrorLog('sessionKey', error));
+    }
+  }, [createLog, delegated, publicKey, wallet]);
+
+  /** Revoke the session key before it expires */
+  const handleRevokeSessionKey = useCallback(async () => {
+    if (!publicKey || !wallet) return;
+
+    try {
+      if (!delegated) throw new Error('There is no session key to revoke');
+      if (!session) throw new Error('Sign in to revoke the session key');
+
+      await revokeDelegation(session, delegated.sessionKey.publicKey);
+      setDelegated(null);
       createLog({
-        status: 'error',
+        status: 'warning',
+        method: 'sessionKey',
+        message: `Revoked session key ${delegated.sessionKey.publicKey}`,
+      });
+    } catch (error) {
+      createLog(createErrorLog('sessionKey', error));
+    }
+  }, [createLog, delegated, publicKey, session, wallet]);
+
+  // The connected account is the only one whose session is active. When the wallet switches
+  // accounts, the new one must prove ownership unless it already did and its session is still valid.
+  const addressRef = useRef<string | null>(null);
+  useEffect(() => {
+    const address = publicKey?.toBase58() ?? null;
+    const previousAddress = addressRef.current;
+    addressRef.current = address;
+    setActiveAddress(address);
+
+    // Connecting a wallet, as opposed to switching accounts, signs in through `autoConnect`
+    if (!address || !previousAddress || address === previousAddress) return;
+
+    const existingSession = sessions.find((session) => session.address === address);
+    createLog({
+      status: 'info',
+      method: 'accountChanged',
+      message: `Switched from ${previousAddress} to ${address}`,
+      messageTwo: existingSession
+        ? `Already signed in until ${new Date(existingSession.expiresAt).toLocaleString()}`
+        : 'Signing in with the new account...',
+    });
+    if (!existingSession) handleSignIn();
+    // Only an account switch should trigger this, not a change of sessions
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [publicKey]);
+
+  /** SignInError */
+  const handleSignInError = useCallback(async (errorCase: SignInErrorCase) => {
+    if (!publicKey || !wallet) return;
+
+    try {
+      const expected = getSignInExpectations();
+      const signInData = await createSignInErrorData(errorCase, expected);
+      const result = await runSignInErrorCase(
+        errorCase,
+        signInData,
+        (input) => signIn(input, siws),
+        expected,
+        verifySignInWithServer
+      );
+      const { walletError, verification } = result;
+      if (result.output) setInspection(inspectSignIn(signInData, result.output));
+
+      let message = `${errorCase.name}: rejected by the verifier (${verification?.error})`;
+      if (walletError) {
+        message = `${errorCase.name}: rejected by the wallet (${walletError.message})`;
+      } else if (verification?.verified) {
+        message = `${errorCase.name}: NOT rejected, the server verified it`;
+      } else if (!result.rejected) {
+        message = `${errorCase.name}: NOT rejected, expected ${result.missedFailures.join(', ')} to fail`;
+      }
+      createLog({
+        status: result.rejected ? 'success' : 'error',
         method: 'signIn',
-        message: error.message,
+        message,
+        messageTwo: errorCase.description,
+        report: result.report,
+        payload: { input: signInData, walletError: walletError?.message, verification },
       });
+    } catch (error) {
+      createLog(createErrorLog('signIn', error));
     }
   }, [createLog, publicKey, siws, wallet]);
 
+  /** CompatibilityCheck */
+  const handleCompatibilityCheck = useCallback(async () => {
+    if (!publicKey || !wallet) return;
+
+    try {
+      if (!siws) throw new FeatureNotSupportedError('signIn');
+
+      createLog({
+        status: 'info',
+        method: 'signIn',
+        message: `Running the compatibility check against ${wallet.adapter.name}, approve every request...`,
+      });
+      const report = await runCompatibilityCheck({
+        wallet: wallet.adapter.name,
+        publicKey: publicKey.toBytes(),
+        signIn: (input) => signIn(input, siws),
+        signMessage: signMsg,
+        expected: getSignInExpectations(),
+      });
+      const { signed, rejected, honored } = report.summary;
+      createLog({
+        status: 'success',
+        method: 'signIn',
+        message: `Compatibility check of ${report.wallet}: ${signed} signed, ${rejected} rejected, ${honored} honored every requested field`,
+        messageTwo: `signMessage: ${report.signMessage.outcome}`,
+        payload: report,
+      });
+    } catch (error) {
+      createLog(createErrorLog('signIn', error));
+    }
+  }, [createLog, publicKey, signMsg, siws, wallet]);
+
+  /** RequestAirdrop */
+  const handleRequestAirdrop = useCallback(async () => {
+    if (!publicKey || !wallet) return;
+
+    try {
+      const signature = await withRpcError('requestAirdrop', connection.requestAirdrop(publicKey, LAMPORTS_PER_SOL));
+      createLog({
+        status: 'info',
+        method: 'signAndSendTransaction',
+        message: `Requested an airdrop of 1 SOL on ${CLUSTER.cluster}, signature: ${signature}`,
+      });
+      trackTransaction(signature, 'signAndSendTransaction');
+    } catch (error) {
+      createLog(createErrorLog('signAndSendTransaction', error));
+    }
+  }, [connection, createLog, publicKey, trackTransaction, wallet]);
+
+  /** SignAndSendTransaction */
+  const handleSignAndSendTransaction = useCallback(async () => {
+    if (!publicKey || !wallet) return;
+
+    try {
+      const transaction = await createTransferTransaction(publicKey, connection);
+      createLog({
+        status: 'info',
+        method: 'signAndSendTransaction',
+        message: `Requesting signature for: ${JSON.stringify(transaction)}`,
+      });
+      const signature = await signAndSendTransaction(transaction, connection, sendTransaction);
+      createLog({
+        status: 'info',
+        method: 'signAndSendTransaction',
+        message: `Signed and submitted transaction ${signature}.`,
+      });
+      trackTransaction(signature, 'signAndSendTransaction', transaction.lastValidBlockHeight);
+    } catch (error) {
+      createLog(createErrorLog('signAndSendTransaction', error));
+    }
+  }, [connection, createLog, publicKey, sendTransaction, trackTransaction, wallet]);
+
+  /** SignAndSendTransactionV0 */
+  const handleSignAndSendTransactionV0 = useCallback(async () => {
+    if (!publicKey || !wallet) return;
+
+    try {
+      const transactionV0 = await createTransferTransactionV0(publicKey, connection);
+      createLog({
+        status: 'info',
+        method: 'signAndSendTransactionV0',
+        message: `Requesting signature for: ${JSON.stringify(transactionV0)}`,
+      });
+      const signature = await signAndSendTransaction(transactionV0, connection, sendTransaction);
+      createLog({
+        status: 'info',
+        method: 'signAndSendTransactionV0',
+        message: `Signed and submitted transactionV0 ${signature}.`,
+      });
+      trackTransaction(signature, 'signAndSendTransactionV0');
+    } catch (error) {
+      createLog(createErrorLog('signAndSendTransactionV0', error));
+    }
+  }, [connection, createLog, publicKey, sendTransaction, trackTransaction, wallet]);
+
+  /** SignAndSendTransactionV0WithLookupTable */
+  const handleSignAndSendTransactionV0WithLookupTable = useCallback(async () => {
+    if (!publicKey || !wallet) return;
+
+    try {
+      const { blockhash, lastValidBlockHeight } = await withRpcError(
+        'getLatestBlockhash',
+        connection.getLatestBlockhash()
+      );
+      const [lookupSignature, lookupTableAddress] = await createAddressLookupTable(
+        publicKey,
+        connection,
+        sendTransaction,
+        blockhash
+      );
+      createLog({
+        status: 'info',
+        method: 'signAndSendTransactionV0WithLookupTable',
+        message: `Signed and submitted transactionV0 to create the Address Lookup Table ${lookupTableAddress.toBase58()}: ${lookupSignature}`,
+      });
+      // The table must exist before it can be extended
+      const lookupConfirmation = await trackTransaction(
+        lookupSignature,
+        'signAndSendTransactionV0WithLookupTable',
+        lastValidBlockHeight
+      );
+      if (lookupConfirmation?.status !== 'confirmed') return;
+
+      const extensionSignature = await extendAddressLookupTable(
+        publicKey,
+        connection,
+        blockhash,
+        lookupTableAddress,
+        sendTransaction
+      );
+      createLog({
+        status: 'info',
+        method: 'signAndSendTransactionV0WithLookupTable',
+        message: `Signed and confirmed transactionV0 to extend the Address Lookup Table: ${extensionSignature}`,
+        messageTwo: 'Waiting a slot for the new addresses to warm up before they can be looked up...',
+      });
+      const extensionSlot = await withRpcError('getSlot', connection.getSlot());
+      const warmupDeadline = Date.now() + LOOKUP_TABLE_WARMUP_TIMEOUT;
+      while ((await withRpcError('getSlot', connection.getSlot())) <= extensionSlot) {
+        if (Date.now() > warmupDeadline) {
+          throw new TimeoutError('The cluster did not advance a slot after extending the lookup table', {
+            timeout: LOOKUP_TABLE_WARMUP_TIMEOUT,
+          });
+        }
+        await new Promise((resolve) => setTimeout(resolve, LOOKUP_TABLE_WARMUP_POLLING_INTERVAL));
+      }
+
+      const latestBlockhash = await withRpcError('getLatestBlockhash', connection.getLatestBlockhash());
+      const signature = await signAndSendTransactionV0WithLookupTable(
+        publicKey,
+        connection,
+        latestBlockhash.blockhash,
+        lookupTableAddress,
+        sendTransaction
+      );
+      createLog({
+        status: 'info',
+        method: 'signAndSendTransactionV0WithLookupTable',
+        message: `Signed and submitted transactionV0 using the Address Lookup Table: ${signature}`,
+      });
+      trackTransaction(signature, 'signAndSendTransactionV0WithLookupTable', latestBlockhash.lastValidBlockHeight);
+    } catch (error) {
+      createLog(createErrorLog('signAndSendTransactionV0WithLookupTable', error));
+    }
+  }, [connection, createLog, publicKey, sendTransaction, trackTransaction, wallet]);
+
+  /** SignTransaction */
+  const handleSignTransaction = useCallback(async () => {
+    if (!publicKey || !wallet) return;
+
+    try {
+      if (!signTx) throw new FeatureNotSupportedError('signTransaction');
+
+      const transaction = await createTransferTransaction(publicKey, connection);
+      createLog({
+        status: 'info',
+        method: 'signTransaction',
+        message: `Requesting signature for: ${JSON.stringify(transaction)}`,
+      });
+      const signedTransaction = await signTransaction(transaction, signTx);
+      createLog({
+        status: 'success',
+        method: 'signTransaction',
+        message: `Transaction signed: ${JSON.stringify(signedTransaction)}`,
+      });
+    } catch (error) {
+      createLog(createErrorLog('signTransaction', error));
+    }
+  }, [connection, createLog, publicKey, signTx, wallet]);
+
+  /** SignAllTransactions */
+  const handleSignAllTransactions = useCallback(async () => {
+    if (!publicKey || !wallet) return;
+
+    try {
+      if (!signAllTx) throw new FeatureNotSupportedError('signAllTransactions');
+
+      const transactions = [
+        await createTransferTransaction(publicKey, connection),
+        await createTransferTransactionV0(publicKey, connection),
+      ];
+      createLog({
+        status: 'info',
+        method: 'signAllTransactions',
+        message: `Requesting signature for: ${JSON.stringify(transactions)}`,
+      });
+      const signedTransactions = await signAllTransactions(transactions[0], transactions[1], signAllTx);
+      createLog({
+        status: 'success',
+        method: 'signAllTransactions',
+        message: `Transactions signed: ${JSON.stringify(signedTransactions)}`,
+      });
+    } catch (error) {
+      createLog(createErrorLog('signAllTransactions', error));
+    }
+  }, [connection, createLog, publicKey, signAllTx, wallet]);
+
   /** Connect */
   const handleConnect = useCallback(async () => {
     if (!publicKey || !wallet) return;
@@ -148,11 +699,7 @@ const StatelessApp = () => {
     try {
       await connect();
     } catch (error) {
-      createLog({
-        status: 'error',
-        method: 'connect',
-        message: error.message,
-      });
+      createLog(createErrorLog('connect', error));
     }
   }, [connect, createLog, publicKey, wallet]);
 
@@ -162,19 +709,19 @@ const StatelessApp = () => {
 
     try {
       await disconnect();
+      await logout();
+      setDelegated(null);
+      confirmationsRef.current.abort();
+      confirmationsRef.current = new AbortController();
       createLog({
         status: 'warning',
         method: 'disconnect',
         message: '👋',
       });
     } catch (error) {
-      createLog({
-        status: 'error',
-        method: 'disconnect',
-        message: error.message,
-      });
+      createLog(createErrorLog('disconnect', error));
     }
-  }, [createLog, disconnect, publicKey, wallet]);
+  }, [createLog, disconnect, logout, publicKey, wallet]);
 
   const connectedMethods = useMemo(() => {
     return [
@@ -187,8 +734,8 @@ const StatelessApp = () => {
         onClick: handleSignIn,
       },
       {
-        name: 'Sign In Error',
-        onClick: handleSignInError,
+        name: 'Run Compatibility Check',
+        onClick: handleCompatibilityCheck,
       },
       {
         name: 'Disconnect',
@@ -198,25 +745,120 @@ const StatelessApp = () => {
   }, [
     handleSignMessage,
     handleSignIn,
-    handleSignInError,
+    handleCompatibilityCheck,
     handleDisconnect,
   ]);
 
+  const sessionKeyMethods = useMemo(() => {
+    return [
+      {
+        name: 'Delegate to Session Key',
+        onClick: handleDelegate,
+      },
+      {
+        name: 'Sign Message with Session Key',
+        onClick: handleSignWithSessionKey,
+      },
+      {
+        name: 'Revoke Session Key',
+        onClick: handleRevokeSessionKey,
+      },
+    ];
+  }, [handleDelegate, handleSignWithSessionKey, handleRevokeSessionKey]);
+
+  const transactionMethods = useMemo(() => {
+    return [
+      ...(CLUSTER.cluster !== 'mainnet'
+        ? [
+            {
+              name: 'Request Airdrop',
+              onClick: handleRequestAirdrop,
+            },
+          ]
+        : []),
+      {
+        name: 'Sign and Send Transaction (Legacy)',
+        onClick: handleSignAndSendTransaction,
+      },
+      {
+        name: 'Sign and Send Transaction (v0)',
+        onClick: handleSignAndSendTransactionV0,
+      },
+      {
+        name: 'Sign and Send Transaction (v0 + Lookup table)',
+        onClick: handleSignAndSendTransactionV0WithLookupTable,
+      },
+      {
+        name: 'Sign Transaction',
+        onClick: handleSignTransaction,
+      },
+      {
+        name: 'Sign All Transactions (multiple)',
+        onClick: handleSignAllTransactions,
+      },
+    ];
+  }, [
+    handleRequestAirdrop,
+    handleSignAndSendTransaction,
+    handleSignAndSendTransactionV0,
+    handleSignAndSendTransactionV0WithLookupTable,
+    handleSignTransaction,
+    handleSignAllTransactions,
+  ]);
+
   return (
     <StyledApp>
-      <Sidebar publicKey={publicKey} connectedMethods={connectedMethods} connect={handleConnect} />
+      <Sidebar
+        publicKey={publicKey}
+        connectedMethods={connectedMethods}
+        session={session}
+        sessions={sessions}
+        transactionMethods={transactionMethods}
+        sessionKeyMethods={sessionKeyMethods}
+        delegation={delegated?.delegation ?? null}
+        connect={handleConnect}
+        autoConnect={autoConnect}
+        setAutoConnect={setAutoConnect}
+        displayEncoding={displayEncoding}
+        setDisplayEncoding={setDisplayEncoding}
+        signInErrorCases={SIGN_IN_ERROR_CASES}
+        runSignInErrorCase={handleSignInError}
+      />
+      {inspection && <SignInInspector inspection={inspection} onClose={() => setInspection(null)} />}
+      <Routes>
+        <Route path="/members" element={<MembersArea />} />
+        <Route path="*" element={null} />
+      </Routes>
       <Logs publicKey={publicKey} logs={logs} clearLogs={clearLogs} />
     </StyledApp>
   );
 };
 
-// =============================================================================
-// Main Component
-// =============================================================================
-const App = () => {
-  const network = WalletAdapterNetwork.Mainnet;
+const WalletApp = () => {
+  const { sessions, setSession } = useSession();
+  const { autoConnect } = useAutoConnect();
+  const [logs, setLogs] = useState<TLogEntry[]>([]);
+  const logCountRef = useRef(0);
 
-  const endpoint = `https://rpc-devnet.helius.xyz/?api-key=${process.env.REACT_APP_HELIUS_API}`;
+  const createLog = useCallback(
+    (log: TLog) => {
+      const entry: TLogEntry = {
+        ...log,
+        id: `log-${++logCountRef.current}`,
+        timestamp: Date.now(),
+        // Plain JSON, so the entry displays and exports as it was when logged
+        payload: toLoggable(log.payload),
+      };
+      return setLogs((logs) => [...logs, entry]);
+    },
+    [setLogs]
+  );
+
+  const clearLogs = useCallback(() => {
+    setLogs([]);
+  }, [setLogs]);
+
+  const { network, endpoint } = CLUSTER;
 
   const wallets = useMemo(
     () => [], // confirmed also with `() => []` for wallet-standard only
@@ -225,26 +867,80 @@ const App = () => {
   );
 
   const autoSignIn = useCallback(async (adapter: Adapter) => {
-    if (!('signIn' in adapter)) return true;
+    // An account with a valid session already proved ownership, so connecting is enough
+    if (sessions.length) {
+      await adapter.autoConnect();
+      const address = adapter.publicKey?.toBase58();
+      const existingSession = sessions.find((session) => session.address === address && session.expiresAt > Date.now());
+      if (existingSession) {
+        createLog({
+          status: 'info',
+          method: 'signIn',
+          message: `Already signed in as ${address} until ${new Date(existingSession.expiresAt).toLocaleString()}`,
+        });
+        return false;
+      }
+    }
+
+    if (!('signIn' in adapter)) {
+      // Wallets that cannot sign messages sign in with a memo transaction instead
+      if (!('signTransaction' in adapter)) return true;
+
+      await adapter.connect();
+      if (!adapter.publicKey) throw new WalletNotConnectedError('Wallet did not connect');
+
+      const { verification } = await signInWithTransaction(adapter.publicKey, (transaction) =>
+        adapter.signTransaction(transaction)
+      );
+      const { verified, error, session } = verification;
+      if (!verified) throw new SignInVerificationError(error);
+      if (session) setSession(session);
+
+      return false;
+    }
 
     const input: SolanaSignInInput = await createSignInData();
     const output = await adapter.signIn(input);
 
-    if (!verifySignIn(input, output)) throw new Error('Sign In verification failed!');
+    const report = createSignInReport(input, output, getSignInExpectations());
+    createLog({ ...createReportLog(report, output.account.address), payload: { input, output } });
+    if (!report.verified) {
+      throw new SignInVerificationError(
+        undefined,
+        report.checks.filter(({ passed }) => !passed).map(({ name }) => name)
+      );
+    }
+
+    const { verified, error, session } = await verifySignInWithServer(output);
+    if (!verified) throw new SignInVerificationError(error);
+    if (session) setSession(session);
 
     return false;
-}, []);
+  }, [createLog, sessions, setSession]);
+
+  return (
+    <ConnectionProvider endpoint={endpoint}>
+      <WalletProvider wallets={wallets} autoConnect={autoConnect === 'signIn' ? autoSignIn : autoConnect === 'connect'}>
+        <WalletModalProvider>
+          <StatelessApp logs={logs} createLog={createLog} clearLogs={clearLogs} />
+        </WalletModalProvider>
+      </WalletProvider>
+    </ConnectionProvider>
+  );
+};
 
+// =============================================================================
+// Main Component
+// =============================================================================
+const App = () => {
   return (
-    <AutoConnectProvider>
-      <ConnectionProvider endpoint={endpoint}>
-        <WalletProvider wallets={wallets} autoConnect={autoSignIn}>
-          <WalletModalProvider>
-            <StatelessApp />
-          </WalletModalProvider>
-        </WalletProvider>
-      </ConnectionProvider>
-    </AutoConnectProvider>
+    <BrowserRouter>
+      <AutoConnectProvider>
+        <SessionProvider>
+          <WalletApp />
+        </SessionProvider>
+      </AutoConnectProvider>
+    </BrowserRouter>
   );
 };
 
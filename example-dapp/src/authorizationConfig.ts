@@ -0,0 +1,18 @@
+import { AuthorizationConfig } from './utils';
+
+/**
+ * Roles gated routes require, each granted by a rule checked against the address of the active session.
+ * See `AuthorizationRule` for the rule types; the addresses below are examples to replace with your own.
+ */
+export const AUTHORIZATION_CONFIG: AuthorizationConfig = {
+  roles: {
+    member: {
+      type: 'anyOf',
+      rules: [
+        // The mock wallet's account, so the members area opens without an extension or funds
+        { type: 'allowlist', addresses: ['AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9'] },
+        { type: 'minBalance', sol: 0.1 },
+      ],
+    },
+  },
+};
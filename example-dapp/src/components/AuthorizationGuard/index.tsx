@@ -0,0 +1,170 @@
+import React, { ReactNode, useCallback, useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { useConnection } from '@solana/wallet-adapter-react';
+
+import { AUTHORIZATION_CONFIG } from '../../authorizationConfig';
+import { GRAY, GREEN, RED, YELLOW } from '../../constants';
+
+import { authorize } from '../../utils';
+import type { AuthorizationConfig, AuthorizationConnection, AuthorizationResult, RuleResult } from '../../utils';
+
+import Button from '../Button';
+import { useSession } from '../SessionProvider';
+
+// =============================================================================
+// Styled Components
+// =============================================================================
+
+const Notice = styled.p<{ color: string }>`
+  margin: 0 0 10px;
+  color: ${(props) => props.color};
+`;
+
+const Rules = styled.ul`
+  margin: 0 0 10px;
+  padding-left: 20px;
+  list-style: none;
+`;
+
+const Rule = styled.li<{ passed: boolean }>`
+  color: ${(props) => (props.passed ? GREEN : RED)};
+  overflow-wrap: break-word;
+`;
+
+const RetryButton = styled(Button)`
+  width: auto;
+  padding: 10px;
+`;
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+export type AuthorizationStatus = 'unauthenticated' | 'loading' | 'authorized' | 'unauthorized' | 'error';
+
+export interface AuthorizationState {
+  /** `unauthenticated` until the connected account has a session */
+  status: AuthorizationStatus;
+  /** Set once the rules were evaluated */
+  result?: AuthorizationResult;
+  /** Set when a chain read failed */
+  error?: Error;
+  /** Evaluates the rules again, e.g. after the balance changed */
+  refresh(): void;
+}
+
+/**
+ * Both are effect dependencies, so they must keep their identity across renders, e.g. module constants or memoized:
+ * a new object on every render would evaluate the rules again on every render
+ */
+export interface AuthorizationOptions {
+  /** Defaults to that of the `ConnectionProvider`; pass a stub in tests */
+  connection?: AuthorizationConnection;
+  /** Defaults to `AUTHORIZATION_CONFIG` */
+  config?: AuthorizationConfig;
+}
+
+interface Props extends AuthorizationOptions {
+  role: string;
+  children: ReactNode;
+  /** Shown instead of the children until the role is granted, defaults to why it is not */
+  fallback?: ReactNode;
+}
+
+// =============================================================================
+// Hooks
+// =============================================================================
+
+/**
+ * Checks whether the account of the active session has a role, again whenever the session changes
+ * @param   {String}               role    a role of the config
+ * @param   {AuthorizationOptions} options the connection and config, to override the defaults
+ * @returns {AuthorizationState}           the status and, once evaluated, the rule results
+ */
+export const useAuthorization = (role: string, options: AuthorizationOptions = {}): AuthorizationState => {
+  const { session } = useSession();
+  const { connection: defaultConnection } = useConnection();
+  const connection = options.connection ?? defaultConnection;
+  const config = options.config ?? AUTHORIZATION_CONFIG;
+  const address = session?.address;
+
+  const [state, setState] = useState<Omit<AuthorizationState, 'refresh'>>({ status: 'loading' });
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!address) {
+      setState({ status: 'unauthenticated' });
+      return;
+    }
+
+    // Results for an earlier address or role must not overwrite the current ones
+    let stale = false;
+    setState({ status: 'loading' });
+    authorize(address, role, connection, config).then(
+      (result) => !stale && setState({ status: result.authorized ? 'authorized' : 'unauthorized', result }),
+      (error) => !stale && setState({ status: 'error', error })
+    );
+    return () => {
+      stale = true;
+    };
+  }, [address, attempt, config, connection, role]);
+
+  const refresh = useCallback(() => setAttempt((attempt) => attempt + 1), []);
+
+  return { ...state, refresh };
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const RuleList = ({ rules }: { rules: RuleResult[] }) => (
+  <Rules>
+    {rules.map((rule, i) => (
+      <Rule key={`${rule.type}-${i}`} passed={rule.passed}>
+        {rule.passed ? '✓' : '✗'} {rule.type}: {rule.message}
+        {rule.rules && <RuleList rules={rule.rules} />}
+      </Rule>
+    ))}
+  </Rules>
+);
+
+const AuthorizationDenied = ({ role, authorization }: { role: string; authorization: AuthorizationState }) => {
+  switch (authorization.status) {
+    case 'unauthenticated':
+      return <Notice color={YELLOW}>Sign in to check whether this account has the {role} role.</Notice>;
+    case 'loading':
+      return <Notice color={GRAY}>Checking the {role} role...</Notice>;
+    case 'error':
+      return (
+        <>
+          <Notice color={RED}>Could not check the {role} role: {authorization.error?.message}</Notice>
+          <RetryButton onClick={authorization.refresh}>Retry</RetryButton>
+        </>
+      );
+    default:
+      return (
+        <>
+          <Notice color={RED}>This account does not have the {role} role.</Notice>
+          {authorization.result && <RuleList rules={[authorization.result.result]} />}
+          <RetryButton onClick={authorization.refresh}>Check again</RetryButton>
+        </>
+      );
+  }
+};
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+/**
+ * Renders its children only for an account with the role, e.g. as the element of a gated route
+ */
+const AuthorizationGuard = ({ role, children, fallback, ...options }: Props) => {
+  const authorization = useAuthorization(role, options);
+
+  if (authorization.status === 'authorized') return <>{children}</>;
+  return <>{fallback ?? <AuthorizationDenied role={role} authorization={authorization} />}</>;
+};
+
+export default AuthorizationGuard;
@@ -2,9 +2,15 @@ import { useLocalStorage } from '@solana/wallet-adapter-react';
 import type { FC, ReactNode } from 'react';
 import React, { createContext, useContext } from 'react';
 
+/**
+ * What happens on page load when a wallet was selected before: `signIn` connects and signs in,
+ * unless the account already has a valid session, `connect` only connects, `none` waits for the user
+ */
+export type AutoConnectMode = 'signIn' | 'connect' | 'none';
+
 interface AutoConnectContextState {
-    autoConnect: boolean;
-    setAutoConnect(autoConnect: boolean): void;
+    autoConnect: AutoConnectMode;
+    setAutoConnect(autoConnect: AutoConnectMode): void;
 }
 
 const AutoConnectContext = createContext<AutoConnectContextState>({} as AutoConnectContextState);
@@ -14,10 +20,9 @@ export function useAutoConnect(): AutoConnectContextState {
 }
 
 export const AutoConnectProvider: FC<{ children: ReactNode }> = ({ children }) => {
-    const [autoConnect, setAutoConnect] = useLocalStorage('autoConnect', true);
+    const [autoConnect, setAutoConnect] = useLocalStorage<AutoConnectMode>('autoConnectMode', 'signIn');
 
     return (
         <AutoConnectContext.Provider value={{ autoConnect, setAutoConnect }}>{children}</AutoConnectContext.Provider>
     );
 };
-
@@ -1,9 +1,11 @@
-import React from 'react';
+import React, { useState } from 'react';
 import styled from 'styled-components';
 
-import { Status, TLog } from '../../types';
+import { HttpRequest, Status, TLogEntry } from '../../types';
 
-import { RED, YELLOW, GREEN, BLUE, PURPLE } from '../../constants';
+import { RED, YELLOW, GREEN, BLUE, PURPLE, GRAY, WHITE, DARK_GRAY } from '../../constants';
+
+import { createCurlCommand } from '../../utils';
 
 // =============================================================================
 // Styled Components
@@ -38,6 +40,11 @@ const StyledSpan = styled.span<{ status: Status }>`
   margin-right: 5px;
 `;
 
+const Time = styled.span`
+  color: ${GRAY};
+  margin-right: 10px;
+`;
+
 const Method = styled.p`
   color: ${PURPLE};
   margin-right: 10px;
@@ -47,20 +54,139 @@ const Message = styled.p`
   overflow-wrap: break-word;
 `;
 
+const Checks = styled.ul`
+  margin: 0 0 10px;
+  padding-left: 20px;
+  list-style: none;
+`;
+
+const Check = styled.li<{ passed: boolean }>`
+  color: ${(props) => (props.passed ? GREEN : RED)};
+  overflow-wrap: break-word;
+`;
+
+const ExplorerLink = styled.a`
+  color: ${PURPLE};
+  overflow-wrap: anywhere;
+`;
+
+const Payload = styled.details`
+  margin-bottom: 10px;
+  summary {
+    color: ${GRAY};
+    cursor: pointer;
+  }
+  pre {
+    margin: 5px 0 0;
+    padding: 10px;
+    color: ${WHITE};
+    background-color: ${DARK_GRAY};
+    border-radius: 6px;
+    overflow-x: auto;
+  }
+`;
+
+const ErrorDetails = styled.div`
+  display: flex;
+  flex-direction: row;
+  flex-wrap: wrap;
+  align-items: center;
+  margin-bottom: 10px;
+  color: ${GRAY};
+  span {
+    margin-right: 10px;
+  }
+`;
+
+const ErrorName = styled.span`
+  color: ${RED};
+`;
+
+const RetryHint = styled.span<{ retryable: boolean }>`
+  color: ${(props) => (props.retryable ? YELLOW : RED)};
+`;
+
+const CopyButton = styled.button`
+  align-self: flex-start;
+  margin-bottom: 10px;
+  padding: 5px 10px;
+  color: ${WHITE};
+  background-color: ${DARK_GRAY};
+  border: 0;
+  border-radius: 6px;
+  font-family: monospace;
+  cursor: pointer;
+`;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const formatTime = (timestamp: number): string => new Date(timestamp).toISOString().slice(11, 23);
+
+/** Copies the curl command of a request, saying so when the browser denies the clipboard */
+const CopyCurlButton = ({ request }: { request: HttpRequest }) => {
+  const [label, setLabel] = useState('Copy as curl');
+  const copy = () =>
+    navigator.clipboard.writeText(createCurlCommand(request)).then(
+      () => setLabel('Copied'),
+      () => setLabel('Copy failed, the clipboard is not available')
+    );
+
+  return <CopyButton onClick={copy}>{label}</CopyButton>;
+};
+
 // =============================================================================
 // Main Component
 // =============================================================================
 
-const Log = React.memo((props: TLog) => (
+const Log = React.memo((props: TLogEntry) => (
   <Column>
     <Row>
+      <Time title={new Date(props.timestamp).toISOString()}>{formatTime(props.timestamp)}</Time>
       <StyledSpan status={props.status}>
         {'>'} {props.status}
       </StyledSpan>
       {props.method && <Method>[{props.method}]</Method>}
     </Row>
-    <Message>{props.message}</Message>
+    <Message>
+      {props.message}
+      {props.confirmation && (
+        <ExplorerLink href={props.confirmation.link} target="_blank" rel="noopener noreferrer">
+          {props.confirmation.signature}
+        </ExplorerLink>
+      )}
+    </Message>
     {props.messageTwo && <Message>{props.messageTwo}</Message>}
+    {props.report && (
+      <Checks>
+        {props.report.checks.map((check) => (
+          <Check key={check.name} passed={check.passed}>
+            {check.passed ? '✓' : '✗'} {check.name}: {check.message}
+          </Check>
+        ))}
+      </Checks>
+    )}
+    {props.error && (
+      <ErrorDetails>
+        <ErrorName>{props.error.name}</ErrorName>
+        {props.error.code !== undefined && <span>code {props.error.code}</span>}
+        {props.error.retryable !== undefined && (
+          <RetryHint retryable={props.error.retryable}>
+            {props.error.retryable ? '↻ may succeed if retried' : '■ retrying will not help'}
+          </RetryHint>
+        )}
+        {props.error.failedChecks && <span>failed checks: {props.error.failedChecks.join(', ')}</span>}
+        {props.error.cause && <span>caused by: {props.error.cause}</span>}
+      </ErrorDetails>
+    )}
+    {props.payload !== undefined && (
+      <Payload>
+        <summary>payload</summary>
+        <pre>{JSON.stringify(props.payload, null, 2)}</pre>
+      </Payload>
+    )}
+    {props.request && <CopyCurlButton request={props.request} />}
   </Column>
 ));
 
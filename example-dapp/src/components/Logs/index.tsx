@@ -1,10 +1,12 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import styled from 'styled-components';
 import { PublicKey } from '@solana/web3.js';
 
-import { TLog } from '../../types';
+import { Status, TLogEntry } from '../../types';
 
-import { BLACK, GRAY } from '../../constants';
+import { BLACK, DARK_GRAY, GRAY, WHITE } from '../../constants';
+
+import { formatLogs, LogExportFormat } from '../../utils';
 
 import Button from '../Button';
 import Log from './Log';
@@ -22,11 +24,41 @@ const StyledSection = styled.section`
   font-family: monospace;
 `;
 
-const ClearLogsButton = styled(Button)`
-  position: absolute;
-  top: 20px;
-  right: 20px;
-  width: 100px;
+const Toolbar = styled.div`
+  position: sticky;
+  top: -20px;
+  display: flex;
+  flex-wrap: wrap;
+  gap: 10px;
+  margin: -20px -20px 20px;
+  padding: 20px;
+  background-color: ${BLACK};
+  border-bottom: 1px solid ${DARK_GRAY};
+`;
+
+const ToolbarButton = styled(Button)`
+  width: auto;
+  padding: 10px;
+`;
+
+const Select = styled.select`
+  padding: 10px;
+  color: ${WHITE};
+  background-color: ${DARK_GRAY};
+  border: 0;
+  border-radius: 6px;
+  cursor: pointer;
+`;
+
+const SearchInput = styled.input`
+  flex: 1;
+  min-width: 120px;
+  padding: 10px;
+  color: ${WHITE};
+  background-color: ${DARK_GRAY};
+  border: 0;
+  border-radius: 6px;
+  font-family: monospace;
 `;
 
 const PlaceholderMessage = styled.p`
@@ -48,25 +80,96 @@ const Row = styled.div`
 
 interface Props {
   publicKey: PublicKey | null;
-  logs: TLog[];
+  logs: TLogEntry[];
   clearLogs: () => void;
 }
 
+// =============================================================================
+// Constants
+// =============================================================================
+
+const STATUSES: Status[] = ['success', 'info', 'warning', 'error'];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const downloadLogs = (logs: TLogEntry[], format: LogExportFormat) => {
+  const type = format === 'json' ? 'application/json' : 'application/x-ndjson';
+  const url = URL.createObjectURL(new Blob([formatLogs(logs, format)], { type }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `logs-${new Date().toISOString()}.${format}`;
+  link.click();
+  // The download starts asynchronously, so the URL must outlive this call
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
 // =============================================================================
 // Main Component
 // =============================================================================
 
 const Logs = React.memo((props: Props) => {
   const { publicKey, logs, clearLogs } = props;
+  const [status, setStatus] = useState<Status | ''>('');
+  const [method, setMethod] = useState('');
+  const [search, setSearch] = useState('');
+
+  const methods = useMemo(() => Array.from(new Set(logs.map((log) => log.method).filter(Boolean))), [logs]);
+
+  const filteredLogs = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return logs.filter(
+      (log) =>
+        (!status || log.status === status) &&
+        (!method || log.method === method) &&
+        (!query ||
+          [log.message, log.messageTwo, log.method, log.error?.name].some((text) =>
+            text?.toLowerCase().includes(query)
+          ))
+    );
+  }, [logs, method, search, status]);
 
   return (
     <StyledSection>
       {logs.length > 0 ? (
         <>
-          {logs.map((log, i) => (
-            <Log key={`${log.status}-${log.method}-${i}`} {...log} />
+          <Toolbar>
+            <Select value={status} onChange={(event) => setStatus(event.target.value as Status | '')}>
+              <option value="">All statuses</option>
+              {STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {status}
+                </option>
+              ))}
+            </Select>
+            <Select value={method} onChange={(event) => setMethod(event.target.value)}>
+              <option value="">All methods</option>
+              {methods.map((method) => (
+                <option key={method} value={method}>
+                  {method}
+                </option>
+              ))}
+            </Select>
+            <SearchInput
+              type="search"
+              placeholder="Search..."
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+            />
+            <ToolbarButton title="Exports the entries shown" onClick={() => downloadLogs(filteredLogs, 'json')}>
+              Export JSON
+            </ToolbarButton>
+            <ToolbarButton title="Exports the entries shown" onClick={() => downloadLogs(filteredLogs, 'ndjson')}>
+              Export NDJSON
+            </ToolbarButton>
+            <ToolbarButton onClick={clearLogs}>Clear Logs</ToolbarButton>
+          </Toolbar>
+          {filteredLogs.map((log) => (
+            <Log key={log.id} {...log} />
           ))}
-          <ClearLogsButton onClick={clearLogs}>Clear Logs</ClearLogsButton>
+          {filteredLogs.length === 0 && <PlaceholderMessage>No logs match the filters.</PlaceholderMessage>}
         </>
       ) : (
         <Row>
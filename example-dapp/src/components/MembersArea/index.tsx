@@ -0,0 +1,57 @@
+import React from 'react';
+import styled from 'styled-components';
+
+import { DARK_GRAY, GREEN, PURPLE, REACT_GRAY, WHITE } from '../../constants';
+
+import AuthorizationGuard from '../AuthorizationGuard';
+import { useSession } from '../SessionProvider';
+
+// =============================================================================
+// Styled Components
+// =============================================================================
+
+const StyledSection = styled.section`
+  position: relative;
+  flex: 2;
+  padding: 20px;
+  color: ${WHITE};
+  background-color: ${REACT_GRAY};
+  border-left: 1px solid ${DARK_GRAY};
+  overflow: auto;
+  font-family: monospace;
+  font-size: 13px;
+`;
+
+const Title = styled.h2`
+  margin: 0 0 10px;
+  color: ${PURPLE};
+  font-size: 16px;
+`;
+
+const Welcome = styled.p`
+  margin: 0;
+  color: ${GREEN};
+  overflow-wrap: anywhere;
+`;
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+/**
+ * A route gated behind the `member` role of `AUTHORIZATION_CONFIG`
+ */
+const MembersArea = React.memo(() => {
+  const { session } = useSession();
+
+  return (
+    <StyledSection>
+      <Title>Members Area</Title>
+      <AuthorizationGuard role="member">
+        <Welcome>Welcome, {session?.address}. This content is only shown to accounts with the member role.</Welcome>
+      </AuthorizationGuard>
+    </StyledSection>
+  );
+});
+
+export default MembersArea;
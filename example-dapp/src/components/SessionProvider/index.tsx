@@ -0,0 +1,103 @@
+import { useLocalStorage } from '@solana/wallet-adapter-react';
+import type { FC, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+
+import { Session } from '../../types';
+import { refreshSession, revokeSession } from '../../utils';
+
+// Refresh this long before the session expires
+const REFRESH_MARGIN = 60 * 1000; // one minute
+
+interface SessionContextState {
+    /** Session of the active account, null until it proves ownership */
+    session: Session | null;
+    /** Every account that proved ownership in this browser and whose session has not expired */
+    sessions: Session[];
+    /** Adds a session, replacing any earlier one for the same address */
+    setSession(session: Session): void;
+    /** Makes the session of an address, if any, the active one; call it whenever the connected account changes */
+    setActiveAddress(address: string | null): void;
+    refresh(): Promise<void>;
+    /** Revokes the session of an address, the active account's by default */
+    logout(address?: string): Promise<void>;
+}
+
+const SessionContext = createContext<SessionContextState>({} as SessionContextState);
+
+export function useSession(): SessionContextState {
+    return useContext(SessionContext);
+}
+
+export const SessionProvider: FC<{ children: ReactNode }> = ({ children }) => {
+    const [sessions, setSessions] = useLocalStorage<Session[]>('sessions', []);
+    const [activeAddress, setActiveAddress] = useState<string | null>(null);
+    const session = sessions.find(({ address }) => address === activeAddress) ?? null;
+
+    const setSession = useCallback(
+        (session: Session) => {
+            setSessions((sessions) => [...sessions.filter(({ address }) => address !== session.address), session]);
+        },
+        [setSessions]
+    );
+
+    const removeSession = useCallback(
+        (address: string) => {
+            setSessions((sessions) => sessions.filter((session) => session.address !== address));
+        },
+        [setSessions]
+    );
+
+    const refreshOne = useCallback(
+        async (session: Session) => {
+            try {
+                const refreshed = await refreshSession(session);
+                if (refreshed) {
+                    setSession(refreshed);
+                } else {
+                    removeSession(session.address);
+                }
+            } catch (error) {
+                console.warn(error);
+            }
+        },
+        [removeSession, setSession]
+    );
+
+    const refresh = useCallback(async () => {
+        if (session) await refreshOne(session);
+    }, [refreshOne, session]);
+
+    const logout = useCallback(
+        async (address = activeAddress) => {
+            const loggedOut = sessions.find((session) => session.address === address);
+            if (!loggedOut) return;
+
+            removeSession(loggedOut.address);
+            await revokeSession(loggedOut);
+        },
+        [activeAddress, removeSession, sessions]
+    );
+
+    // Silently refresh the active session shortly before it expires, and drop the others once they expire
+    useEffect(() => {
+        const now = Date.now();
+        const expired = sessions.filter(({ expiresAt }) => expiresAt <= now);
+        if (expired.length) {
+            setSessions((sessions) => sessions.filter((session) => !expired.includes(session)));
+            return;
+        }
+
+        const timeouts = sessions.map((session) =>
+            session.address === activeAddress
+                ? setTimeout(() => refreshOne(session), Math.max(session.expiresAt - now - REFRESH_MARGIN, 0))
+                : setTimeout(() => removeSession(session.address), session.expiresAt - now)
+        );
+        return () => timeouts.forEach(clearTimeout);
+    }, [activeAddress, refreshOne, removeSession, sessions, setSessions]);
+
+    return (
+        <SessionContext.Provider value={{ session, sessions, setSession, setActiveAddress, refresh, logout }}>
+            {children}
+        </SessionContext.Provider>
+    );
+};
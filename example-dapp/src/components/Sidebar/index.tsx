@@ -9,7 +9,10 @@ import { GRAY, REACT_GRAY, PURPLE, WHITE, DARK_GRAY } from '../../constants';
 import { hexToRGB } from '../../utils';
 
 import Button from '../Button';
+import type { AutoConnectMode } from '../AutoConnectProvider';
 import { ConnectedMethods } from '../../App';
+import type { SignInErrorCase } from '../../utils';
+import { Delegation, DisplayEncoding, Session } from '../../types';
 
 require('@solana/wallet-adapter-react-ui/styles.css');
 
@@ -98,6 +101,23 @@ const Badge = styled.div`
   }
 `;
 
+const Account = styled.li<{ active: boolean }>`
+  margin-bottom: 5px;
+  padding: 8px;
+  color: ${(props) => (props.active ? PURPLE : GRAY)};
+  background-color: ${(props) => hexToRGB(PURPLE, props.active ? 0.2 : 0.1)};
+  font-size: 14px;
+  font-weight: ${(props) => (props.active ? 'bold' : 'normal')};
+  border-radius: 6px;
+  list-style: none;
+`;
+
+const Accounts = styled.ul`
+  margin: 0;
+  padding: 0;
+  width: 100%;
+`;
+
 const Divider = styled.div`
   border: 1px solid ${DARK_GRAY};
   height: 1px;
@@ -178,6 +198,45 @@ const MenuContainer = styled.div`
 
 const Menu = styled.div``;
 
+const Select = styled.select`
+  width: 100%;
+  margin-bottom: 10px;
+  padding: 10px;
+  color: ${WHITE};
+  background-color: ${DARK_GRAY};
+  border: 0;
+  border-radius: 6px;
+  font-size: 14px;
+  cursor: pointer;
+`;
+
+const AutoConnectSetting = styled.label`
+  width: 200px;
+  margin-top: 15px;
+  color: ${GRAY};
+  font-size: 14px;
+  select {
+    margin-top: 5px;
+  }
+`;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const AUTO_CONNECT_LABELS: Record<AutoConnectMode, string> = {
+  signIn: 'Connect and sign in',
+  connect: 'Connect only',
+  none: 'Do nothing',
+};
+
+const DISPLAY_ENCODING_LABELS: Record<DisplayEncoding, string> = {
+  base58: 'Base58',
+  base64: 'Base64',
+  hex: 'Hex',
+  utf8: 'Text message, base58 signature',
+};
+
 // =============================================================================
 // Typedefs
 // =============================================================================
@@ -185,7 +244,25 @@ const Menu = styled.div``;
 interface Props {
   publicKey?: PublicKey;
   connectedMethods: ConnectedMethods[];
+  /** Session of the connected account */
+  session: Session | null;
+  /** Every account signed in from this browser */
+  sessions: Session[];
+  /** Shown in the transaction playground */
+  transactionMethods: ConnectedMethods[];
+  /** Delegate to, sign with and revoke a session key */
+  sessionKeyMethods: ConnectedMethods[];
+  /** What the active session key may do, if the connected wallet delegated to one */
+  delegation: Delegation | null;
   connect: () => Promise<void>;
+  /** What happens on page load when a wallet was selected before */
+  autoConnect: AutoConnectMode;
+  setAutoConnect: (autoConnect: AutoConnectMode) => void;
+  /** How signed messages are encoded in the logs */
+  displayEncoding: DisplayEncoding;
+  setDisplayEncoding: (displayEncoding: DisplayEncoding) => void;
+  signInErrorCases: SignInErrorCase[];
+  runSignInErrorCase: (errorCase: SignInErrorCase) => Promise<void>;
 }
 
 // =============================================================================
@@ -193,8 +270,24 @@ interface Props {
 // =============================================================================
 
 const Sidebar = React.memo((props: Props) => {
-  const { publicKey, connectedMethods } = props;
+  const {
+    publicKey,
+    connectedMethods,
+    session,
+    sessions,
+    transactionMethods,
+    sessionKeyMethods,
+    delegation,
+    autoConnect,
+    setAutoConnect,
+    displayEncoding,
+    setDisplayEncoding,
+    signInErrorCases,
+    runSignInErrorCase,
+  } = props;
   const [menuOpen, setMenuOpen] = React.useState(false);
+  const [errorCaseId, setErrorCaseId] = React.useState(signInErrorCases[0]?.id);
+  const errorCase = signInErrorCases.find(({ id }) => id === errorCaseId);
 
   const toggleMenu = () => {
     setMenuOpen(!menuOpen);
@@ -207,6 +300,16 @@ const Sidebar = React.memo((props: Props) => {
           <img src="/images/phantom-icon-purple.png" alt="Phantom" width="75" />
         </Link>
         <WalletMultiButton />  
+        <AutoConnectSetting>
+          On page load
+          <Select value={autoConnect} onChange={(event) => setAutoConnect(event.target.value as AutoConnectMode)}>
+            {(Object.keys(AUTO_CONNECT_LABELS) as AutoConnectMode[]).map((mode) => (
+              <option key={mode} value={mode}>
+                {AUTO_CONNECT_LABELS[mode]}
+              </option>
+            ))}
+          </Select>
+        </AutoConnectSetting>
         {publicKey ? (
           // connected
           <>
@@ -215,11 +318,91 @@ const Sidebar = React.memo((props: Props) => {
               <Badge>{publicKey.toBase58()}</Badge>
               <Divider />
             </div>
+            {sessions.length > 0 && (
+              <div>
+                <Pre>Signed In Accounts</Pre>
+                <Accounts>
+                  {sessions.map(({ address, expiresAt, capabilities = {} }) => (
+                    <Account
+                      key={address}
+                      active={address === session?.address}
+                      title={[
+                        `Signed in until ${new Date(expiresAt).toLocaleString()}`,
+                        ...Object.entries(capabilities).map(
+                          ([service, permissions]) => `Granted ${permissions.join(', ')} on ${service}`
+                        ),
+                      ].join('\n')}
+                    >
+                      {address.slice(0, 4)}...{address.slice(-4)}
+                    </Account>
+                  ))}
+                </Accounts>
+                <Divider />
+              </div>
+            )}
+            <div>
+              <Pre>Gated Routes</Pre>
+              <NavigationLink to="/" end>
+                Home
+              </NavigationLink>
+              <NavigationLink to="/members">Members Area</NavigationLink>
+              <Divider />
+            </div>
+            <div>
+              <Pre>Signature Encoding</Pre>
+              <Select
+                value={displayEncoding}
+                onChange={(event) => setDisplayEncoding(event.target.value as DisplayEncoding)}
+              >
+                {(Object.keys(DISPLAY_ENCODING_LABELS) as DisplayEncoding[]).map((encoding) => (
+                  <option key={encoding} value={encoding}>
+                    {DISPLAY_ENCODING_LABELS[encoding]}
+                  </option>
+                ))}
+              </Select>
+            </div>
             {connectedMethods.map((method, i) => (
               <Button key={`${method.name}-${i}`} onClick={method.onClick}>
                 {method.name}
               </Button>
             ))}
+            <div>
+              <Divider />
+              <Pre>Transaction Playground</Pre>
+            </div>
+            {transactionMethods.map((method, i) => (
+              <Button key={`${method.name}-${i}`} onClick={method.onClick}>
+                {method.name}
+              </Button>
+            ))}
+            <div>
+              <Divider />
+              <Pre>Session Key</Pre>
+              {delegation && (
+                <Badge title={`Valid until ${new Date(delegation.expirationTime).toLocaleString()}`}>
+                  {delegation.sessionKey.slice(0, 4)}...{delegation.sessionKey.slice(-4)}: {delegation.scope.join(', ')}
+                </Badge>
+              )}
+            </div>
+            {sessionKeyMethods.map((method, i) => (
+              <Button key={`${method.name}-${i}`} onClick={method.onClick}>
+                {method.name}
+              </Button>
+            ))}
+            <div>
+              <Divider />
+              <Pre>Sign In Error</Pre>
+              <Select value={errorCaseId} onChange={(event) => setErrorCaseId(event.target.value)}>
+                {signInErrorCases.map(({ id, name }) => (
+                  <option key={id} value={id}>
+                    {name}
+                  </option>
+                ))}
+              </Select>
+              <Button title={errorCase?.description} onClick={() => errorCase && runSignInErrorCase(errorCase)}>
+                Run Sign In Error
+              </Button>
+            </div>
           </>
         ) : (
           // not connected
@@ -0,0 +1,194 @@
+import React from 'react';
+import styled from 'styled-components';
+
+import { BLACK, BLUE, DARK_GRAY, GRAY, GREEN, PURPLE, RED, REACT_GRAY, WHITE, YELLOW } from '../../constants';
+
+import { hexToRGB } from '../../utils';
+import type { SignInFieldChange, SignInInspection } from '../../utils';
+
+import Button from '../Button';
+
+// =============================================================================
+// Styled Components
+// =============================================================================
+
+const StyledSection = styled.section`
+  position: relative;
+  flex: 2;
+  padding: 20px;
+  color: ${WHITE};
+  background-color: ${REACT_GRAY};
+  border-left: 1px solid ${DARK_GRAY};
+  overflow: auto;
+  font-family: monospace;
+  font-size: 13px;
+`;
+
+const Header = styled.div`
+  display: flex;
+  flex-direction: row;
+  justify-content: space-between;
+  align-items: center;
+  margin-bottom: 10px;
+`;
+
+const Title = styled.h2`
+  margin: 0;
+  color: ${PURPLE};
+  font-size: 16px;
+`;
+
+const CloseButton = styled(Button)`
+  width: auto;
+  padding: 10px;
+`;
+
+const Label = styled.p`
+  margin: 15px 0 5px;
+  color: ${GRAY};
+`;
+
+const Pre = styled.pre`
+  margin: 0;
+  padding: 10px;
+  background-color: ${BLACK};
+  border-radius: 6px;
+  white-space: pre-wrap;
+  overflow-wrap: anywhere;
+`;
+
+const Table = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  th,
+  td {
+    padding: 5px;
+    text-align: left;
+    vertical-align: top;
+    white-space: pre-wrap;
+    overflow-wrap: anywhere;
+    border-bottom: 1px solid ${DARK_GRAY};
+  }
+  th {
+    color: ${GRAY};
+    font-weight: normal;
+  }
+`;
+
+const FieldRow = styled.tr<{ change: SignInFieldChange }>`
+  color: ${(props) => CHANGE_COLORS[props.change]};
+  background-color: ${(props) =>
+    props.change === 'unchanged' ? 'transparent' : hexToRGB(CHANGE_COLORS[props.change], 0.1)};
+`;
+
+const Legend = styled.p`
+  margin: 5px 0 0;
+  span {
+    margin-right: 10px;
+  }
+`;
+
+const Value = styled.p`
+  margin: 0;
+  overflow-wrap: anywhere;
+`;
+
+const Verdict = styled.p<{ passed: boolean }>`
+  margin: 15px 0 0;
+  color: ${(props) => (props.passed ? GREEN : RED)};
+`;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const CHANGE_COLORS: Record<SignInFieldChange, string> = {
+  unchanged: WHITE,
+  added: BLUE,
+  dropped: RED,
+  changed: YELLOW,
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const formatValue = (value?: string | readonly string[]): string => {
+  if (value === undefined) return '—';
+  return typeof value === 'string' ? value : value.join('\n');
+};
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+interface Props {
+  inspection: SignInInspection;
+  onClose: () => void;
+}
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+const SignInInspector = React.memo(({ inspection, onClose }: Props) => (
+  <StyledSection>
+    <Header>
+      <Title>Sign In Inspector</Title>
+      <CloseButton onClick={onClose}>Close</CloseButton>
+    </Header>
+
+    <Label>Signed message</Label>
+    <Pre>{inspection.text}</Pre>
+
+    <Label>Fields</Label>
+    {inspection.parseError ? (
+      <Verdict passed={false}>Not a valid SIWS message: {inspection.parseError}</Verdict>
+    ) : (
+      <>
+        <Table>
+          <thead>
+            <tr>
+              <th>Field</th>
+              <th>Requested</th>
+              <th>Signed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {inspection.fields.map(({ field, requested, signed, change }) => (
+              <FieldRow key={field} change={change} title={change}>
+                <td>{field}</td>
+                <td>{formatValue(requested)}</td>
+                <td>{formatValue(signed)}</td>
+              </FieldRow>
+            ))}
+          </tbody>
+        </Table>
+        <Legend>
+          {(['added', 'dropped', 'changed'] as SignInFieldChange[]).map((change) => (
+            <span key={change} style={{ color: CHANGE_COLORS[change] }}>
+              ■ {change} by the wallet
+            </span>
+          ))}
+        </Legend>
+      </>
+    )}
+
+    <Label>Signature (base58)</Label>
+    <Value>{inspection.signature.base58}</Value>
+    <Label>Signature (hex)</Label>
+    <Value>{inspection.signature.hex}</Value>
+    <Label>Public key (base58)</Label>
+    <Value>{inspection.publicKey.base58}</Value>
+    <Label>Public key (hex)</Label>
+    <Value>{inspection.publicKey.hex}</Value>
+
+    <Verdict passed={inspection.signatureValid}>
+      {inspection.signatureValid
+        ? '✓ The signature is valid for this message and public key'
+        : '✗ The signature is NOT valid for this message and public key'}
+    </Verdict>
+  </StyledSection>
+));
+
+export default SignInInspector;
@@ -1,5 +1,11 @@
+export { default as AuthorizationGuard, useAuthorization } from './AuthorizationGuard';
+export type { AuthorizationOptions, AuthorizationState, AuthorizationStatus } from './AuthorizationGuard';
 export { default as Button } from './Button';
 export { default as Logs } from './Logs';
+export { default as MembersArea } from './MembersArea';
 export { default as NoProvider } from './NoProvider';
 export { default as Sidebar } from './Sidebar';
+export { default as SignInInspector } from './SignInInspector';
 export { AutoConnectProvider, useAutoConnect } from './AutoConnectProvider';
+export type { AutoConnectMode } from './AutoConnectProvider';
+export { SessionProvider, useSession } from './SessionProvider';
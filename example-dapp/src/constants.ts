@@ -13,3 +13,10 @@ export const REACT_GRAY = '#222222';
 export const DARK_GRAY = '#333333';
 export const LIGHT_GRAY = '#444444';
 export const BLACK = '#000000';
+
+// =============================================================================
+// Sign-In Server
+// =============================================================================
+
+// Empty by default so requests go through the dev server proxy (see package.json)
+export const SIWS_SERVER_URL = process.env.REACT_APP_SIWS_SERVER_URL || '';
@@ -0,0 +1,160 @@
+/**
+ * @jest-environment node
+ */
+import { ed25519 } from '@noble/curves/ed25519';
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { SolanaSignInInput } from '@solana/wallet-standard-features';
+import { verifySignIn } from '@solana/wallet-standard-util';
+
+import { UserRejectedError } from '../utils/errors';
+import { parseSignInMessage } from '../utils/signInMessage';
+import signIn from '../utils/signIn';
+import signMessage from '../utils/signMessage';
+import verifySignedMessage from '../utils/verifySignedMessage';
+import { MOCK_WALLET_SEED, MockWallet, MockWalletOptions } from './MockWallet';
+
+const ADDRESS = Keypair.fromSeed(MOCK_WALLET_SEED).publicKey;
+
+const input: SolanaSignInInput = {
+  domain: 'localhost:3000',
+  uri: 'http://localhost:3000',
+  version: '1',
+  chainId: 'solana:devnet',
+  nonce: 'a1b2c3d4e5f6',
+  issuedAt: new Date().toISOString(),
+};
+
+/** The wallet's features as the wallet adapter exposes them */
+const connect = async (options: MockWalletOptions) => {
+  const wallet = new MockWallet(options);
+  const {
+    accounts: [account],
+  } = await wallet.features['standard:connect'].connect();
+  const features = wallet.features;
+
+  return {
+    wallet,
+    signIn: async (signInInput: SolanaSignInInput) => (await features['solana:signIn'].signIn(signInInput))[0],
+    signMessage: async (message: Uint8Array) => {
+      const [output] = await features['solana:signMessage'].signMessage({ account, message });
+      return output.signature;
+    },
+    signTransaction: async (transaction: Uint8Array) => {
+      const [output] = await features['solana:signTransaction'].signTransaction({ account, transaction });
+      return output.signedTransaction;
+    },
+  };
+};
+
+const createTransfer = (): Transaction => {
+  const transaction = new Transaction({ feePayer: ADDRESS, recentBlockhash: PublicKey.default.toBase58() });
+  return transaction.add(SystemProgram.transfer({ fromPubkey: ADDRESS, toPubkey: ADDRESS, lamports: 1 }));
+};
+
+const createTransferV0 = (): VersionedTransaction => {
+  const message = new TransactionMessage({
+    payerKey: ADDRESS,
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions: [SystemProgram.transfer({ fromPubkey: ADDRESS, toPubkey: ADDRESS, lamports: 1 })],
+  }).compileToV0Message();
+  return new VersionedTransaction(message);
+};
+
+const verifyVersioned = (signed: Uint8Array): boolean => {
+  const transaction = VersionedTransaction.deserialize(signed);
+  return ed25519.verify(transaction.signatures[0], transaction.message.serialize(), ADDRESS.toBytes());
+};
+
+describe('MockWallet', () => {
+  it('connects with the account of its seed', async () => {
+    const { wallet } = await connect({});
+
+    expect(wallet.accounts.map(({ address }) => address)).toEqual([ADDRESS.toBase58()]);
+  });
+
+  describe('approve', () => {
+    it('signs in with a message the verifier accepts', async () => {
+      const { signIn: signInMethod } = await connect({});
+      const output = await signIn(input, signInMethod);
+
+      expect(verifySignIn(input, output)).toBe(true);
+    });
+
+    it('signs messages', async () => {
+      const { signMessage: signMsg } = await connect({});
+      const signature = await signMessage('Hello', signMsg);
+
+      expect(verifySignedMessage('Hello', signature, ADDRESS.toBytes())).toBe(true);
+    });
+
+    it('signs legacy and v0 transactions', async () => {
+      const { signTransaction } = await connect({});
+      const legacy = Transaction.from(await signTransaction(createTransfer().serialize({ verifySignatures: false })));
+
+      expect(legacy.verifySignatures()).toBe(true);
+      expect(verifyVersioned(await signTransaction(createTransferV0().serialize()))).toBe(true);
+    });
+  });
+
+  describe('reject', () => {
+    it('fails every request as declined by the user', async () => {
+      const { wallet } = await connect({});
+      wallet.behavior = 'reject';
+      const signInMethod = async (signInInput: SolanaSignInInput) => {
+        return (await wallet.features['solana:signIn'].signIn(signInInput))[0];
+      };
+
+      await expect(signIn(input, signInMethod)).rejects.toBeInstanceOf(UserRejectedError);
+    });
+  });
+
+  describe('wrongKey', () => {
+    it('signs in with a signature the verifier rejects', async () => {
+      const { signIn: signInMethod } = await connect({ behavior: 'wrongKey' });
+
+      expect(verifySignIn(input, await signIn(input, signInMethod))).toBe(false);
+    });
+
+    it('signs messages with a signature that does not verify', async () => {
+      const { signMessage: signMsg } = await connect({ behavior: 'wrongKey' });
+
+      expect(verifySignedMessage('Hello', await signMessage('Hello', signMsg), ADDRESS.toBytes())).toBe(false);
+    });
+
+    it('signs legacy and v0 transactions with a signature that does not verify', async () => {
+      const { signTransaction } = await connect({ behavior: 'wrongKey' });
+      const legacy = Transaction.from(await signTransaction(createTransfer().serialize({ verifySignatures: false })));
+
+      expect(legacy.signature).not.toBeNull();
+      expect(legacy.verifySignatures()).toBe(false);
+      expect(verifyVersioned(await signTransaction(createTransferV0().serialize()))).toBe(false);
+    });
+  });
+
+  describe('alterDomain', () => {
+    it('signs a sign-in message for another domain', async () => {
+      const { signIn: signInMethod } = await connect({ behavior: 'alterDomain' });
+      const output = await signIn(input, signInMethod);
+
+      expect(parseSignInMessage(output.signedMessage).domain).toBe('wallet-localhost:3000');
+      expect(verifySignIn(input, output)).toBe(false);
+    });
+  });
+
+  describe('delay', () => {
+    it('approves after the delay', async () => {
+      const { signIn: signInMethod } = await connect({ behavior: 'delay', delay: 50 });
+      const start = Date.now();
+
+      expect(verifySignIn(input, await signIn(input, signInMethod))).toBe(true);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(40);
+    });
+  });
+});
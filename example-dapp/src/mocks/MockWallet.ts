@@ -0,0 +1,227 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { Keypair, VersionedTransaction } from '@solana/web3.js';
+import {
+  SolanaSignIn,
+  SolanaSignMessage,
+  SolanaSignTransaction,
+  type SolanaSignInFeature,
+  type SolanaSignInInput,
+  type SolanaSignInOutput,
+  type SolanaSignMessageFeature,
+  type SolanaSignMessageInput,
+  type SolanaSignMessageOutput,
+  type SolanaSignTransactionFeature,
+  type SolanaSignTransactionInput,
+  type SolanaSignTransactionOutput,
+} from '@solana/wallet-standard-features';
+import type { Wallet, WalletAccount, WalletIcon } from '@wallet-standard/base';
+import {
+  StandardConnect,
+  StandardDisconnect,
+  StandardEvents,
+  type StandardConnectFeature,
+  type StandardDisconnectFeature,
+  type StandardEventsFeature,
+  type StandardEventsListeners,
+  type StandardEventsNames,
+} from '@wallet-standard/features';
+
+import { createSignInMessage } from '../utils/signInMessage';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+/**
+ * How the mock wallet answers requests:
+ * - `approve`: signs with its own key
+ * - `reject`: fails as if the user declined
+ * - `wrongKey`: signs with a different key than the account's
+ * - `alterDomain`: signs a sign-in message for another domain than requested
+ * - `delay`: approves after `delay` milliseconds
+ */
+export type MockWalletBehavior = 'approve' | 'reject' | 'wrongKey' | 'alterDomain' | 'delay';
+
+export interface MockWalletOptions {
+  behavior?: MockWalletBehavior;
+  /** Used by the `delay` behavior, in milliseconds */
+  delay?: number;
+  /** 32-byte ed25519 seed, so the account is the same on every run */
+  seed?: Uint8Array;
+}
+
+type MockWalletFeatures = StandardConnectFeature &
+  StandardDisconnectFeature &
+  StandardEventsFeature &
+  SolanaSignInFeature &
+  SolanaSignMessageFeature &
+  SolanaSignTransactionFeature;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const CHAINS = ['solana:mainnet', 'solana:devnet', 'solana:testnet', 'solana:localnet'] as const;
+
+const ICON: WalletIcon =
+  'data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHZpZXdCb3g9IjAgMCAzMiAzMiI+PHJlY3Qgd2lkdGg9IjMyIiBoZWlnaHQ9IjMyIiByeD0iNiIgZmlsbD0iIzhBODFGOCIvPjwvc3ZnPg==';
+
+export const MOCK_WALLET_SEED = new Uint8Array(32).fill(1);
+const WRONG_KEY_SEED = new Uint8Array(32).fill(2);
+
+const DEFAULT_DELAY = 2000; // two seconds
+
+const USER_REJECTED_CODE = 4001;
+
+// =============================================================================
+// Main Class
+// =============================================================================
+
+/**
+ * A wallet-standard wallet backed by a deterministic ed25519 keypair, for
+ * exercising the sign-in, message and transaction flows without an extension
+ */
+export class MockWallet implements Wallet {
+  readonly version = '1.0.0' as const;
+  readonly name = 'Mock Wallet';
+  readonly icon = ICON;
+  readonly chains = CHAINS;
+
+  behavior: MockWalletBehavior;
+  delay: number;
+
+  private readonly keypair: Keypair;
+  private readonly wrongKeypair = Keypair.fromSeed(WRONG_KEY_SEED);
+  private readonly account: WalletAccount;
+  private connected = false;
+  private listeners: { [E in StandardEventsNames]?: StandardEventsListeners[E][] } = {};
+
+  constructor(options: MockWalletOptions = {}) {
+    const { behavior = 'approve', delay = DEFAULT_DELAY, seed = MOCK_WALLET_SEED } = options;
+    this.behavior = behavior;
+    this.delay = delay;
+    this.keypair = Keypair.fromSeed(seed);
+    this.account = {
+      address: this.keypair.publicKey.toBase58(),
+      publicKey: this.keypair.publicKey.toBytes(),
+      chains: CHAINS,
+      features: [SolanaSignIn, SolanaSignMessage, SolanaSignTransaction],
+    };
+  }
+
+  get accounts(): readonly WalletAccount[] {
+    return this.connected ? [this.account] : [];
+  }
+
+  get features(): MockWalletFeatures {
+    return {
+      [StandardConnect]: { version: '1.0.0', connect: this.connect },
+      [StandardDisconnect]: { version: '1.0.0', disconnect: this.disconnect },
+      [StandardEvents]: { version: '1.0.0', on: this.on },
+      [SolanaSignIn]: { version: '1.0.0', signIn: this.signIn },
+      [SolanaSignMessage]: { version: '1.0.0', signMessage: this.signMessage },
+      [SolanaSignTransaction]: {
+        version: '1.0.0',
+        supportedTransactionVersions: ['legacy', 0],
+        signTransaction: this.signTransaction,
+      },
+    };
+  }
+
+  // ===========================================================================
+  // Features
+  // ===========================================================================
+
+  private connect: StandardConnectFeature[typeof StandardConnect]['connect'] = async () => {
+    if (!this.connected) {
+      await this.approve();
+      this.setConnected(true);
+    }
+    return { accounts: this.accounts };
+  };
+
+  private disconnect: StandardDisconnectFeature[typeof StandardDisconnect]['disconnect'] = async () => {
+    this.setConnected(false);
+  };
+
+  private on: StandardEventsFeature[typeof StandardEvents]['on'] = (event, listener) => {
+    this.listeners[event] = [...(this.listeners[event] ?? []), listener];
+    return () => {
+      this.listeners[event] = this.listeners[event]?.filter((existing) => existing !== listener);
+    };
+  };
+
+  private signIn = async (...inputs: readonly SolanaSignInInput[]): Promise<readonly SolanaSignInOutput[]> => {
+    await this.approve();
+    this.setConnected(true);
+
+    return inputs.map((input) => {
+      let domain = input.domain ?? window.location.host;
+      if (this.behavior === 'alterDomain') domain = `wallet-${domain}`;
+
+      const signedMessage = createSignInMessage({ ...input, domain, address: this.account.address });
+      return {
+        account: this.account,
+        signedMessage,
+        signature: this.sign(signedMessage),
+        signatureType: 'ed25519',
+      };
+    });
+  };
+
+  private signMessage = async (
+    ...inputs: readonly SolanaSignMessageInput[]
+  ): Promise<readonly SolanaSignMessageOutput[]> => {
+    await this.approve();
+
+    return inputs.map(({ message }) => ({
+      signedMessage: message,
+      signature: this.sign(message),
+      signatureType: 'ed25519',
+    }));
+  };
+
+  private signTransaction = async (
+    ...inputs: readonly SolanaSignTransactionInput[]
+  ): Promise<readonly SolanaSignTransactionOutput[]> => {
+    await this.approve();
+
+    return inputs.map(({ transaction }) => {
+      const versionedTransaction = VersionedTransaction.deserialize(transaction);
+      if (this.behavior === 'wrongKey') {
+        // web3.js refuses to sign with a key that is not a signer, so the bad signature is put in the account's slot
+        const { message } = versionedTransaction;
+        const index = message.staticAccountKeys.findIndex((key) => key.equals(this.keypair.publicKey));
+        versionedTransaction.signatures[index] = this.sign(message.serialize());
+      } else {
+        versionedTransaction.sign([this.keypair]);
+      }
+      return { signedTransaction: versionedTransaction.serialize() };
+    });
+  };
+
+  // ===========================================================================
+  // Helpers
+  // ===========================================================================
+
+  private async approve() {
+    if (this.behavior === 'delay') {
+      await new Promise((resolve) => setTimeout(resolve, this.delay));
+    }
+    if (this.behavior === 'reject') {
+      throw Object.assign(new Error('User rejected the request.'), { code: USER_REJECTED_CODE });
+    }
+  }
+
+  private sign(message: Uint8Array): Uint8Array {
+    const keypair = this.behavior === 'wrongKey' ? this.wrongKeypair : this.keypair;
+    return ed25519.sign(message, keypair.secretKey.slice(0, 32));
+  }
+
+  private setConnected(connected: boolean) {
+    if (this.connected === connected) return;
+
+    this.connected = connected;
+    this.listeners.change?.forEach((listener) => listener({ accounts: this.accounts }));
+  }
+}
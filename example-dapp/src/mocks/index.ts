@@ -0,0 +1,24 @@
+import { registerWallet } from '@wallet-standard/wallet';
+
+import { MockWallet, MockWalletBehavior } from './MockWallet';
+
+export { MockWallet, MOCK_WALLET_SEED } from './MockWallet';
+export type { MockWalletBehavior, MockWalletOptions } from './MockWallet';
+
+/** The registered mock wallet; change `behavior` at any time to simulate another wallet response */
+export const mockWallet = new MockWallet({
+  behavior: process.env.REACT_APP_MOCK_WALLET_BEHAVIOR as MockWalletBehavior | undefined,
+});
+
+let registered = false;
+
+/**
+ * Registers the mock wallet with the wallet-standard, so it is listed by the
+ * wallet adapter like any browser extension. Registering more than once is a no-op.
+ */
+export const registerMockWallet = () => {
+  if (registered) return;
+
+  registered = true;
+  registerWallet(mockWallet);
+};
@@ -1,11 +1,17 @@
-import { PublicKey, Transaction, VersionedTransaction, SendOptions } from '@solana/web3.js';
-import { SolanaSignInInput } from "@solana/wallet-standard-features";
+import type {
+  MessageSignerWalletAdapterProps,
+  SignerWalletAdapterProps,
+  SignInMessageSignerWalletAdapterProps,
+  WalletAdapterProps,
+} from '@solana/wallet-adapter-base';
+import { PublicKey } from '@solana/web3.js';
 
-type DisplayEncoding = 'utf8' | 'hex';
+/** How bytes are shown to the user, see `encodeBytes` */
+export type DisplayEncoding = 'utf8' | 'hex' | 'base58' | 'base64';
 
-type PhantomEvent = 'connect' | 'disconnect' | 'accountChanged';
+type WalletEvent = 'connect' | 'disconnect' | 'accountChanged';
 
-type PhantomRequestMethod =
+type WalletMethod =
   | 'connect'
   | 'disconnect'
   | 'signAndSendTransaction'
@@ -16,37 +22,177 @@ type PhantomRequestMethod =
   | 'signMessage'
   | 'signIn';
 
-interface ConnectOpts {
-  onlyIfTrusted: boolean;
-}
-
-export interface Provider {
+/**
+ * The wallet capabilities the app relies on, typed after the wallet adapter's implementation of the
+ * `standard:connect`, `solana:signAndSendTransaction`, `solana:signTransaction`, `solana:signMessage`
+ * and `solana:signIn` features. `useWallet()` satisfies it; an optional capability is undefined when the
+ * connected wallet does not support the feature.
+ */
+export interface WalletCapabilities {
   publicKey: PublicKey | null;
-  isConnected: boolean | null;
-  signAndSendTransaction: (
-    transaction: Transaction | VersionedTransaction,
-    opts?: SendOptions
-  ) => Promise<{ signature: string; publicKey: PublicKey }>;
-  signTransaction: (transaction: Transaction | VersionedTransaction) => Promise<Transaction | VersionedTransaction>;
-  signAllTransactions: (
-    transactions: (Transaction | VersionedTransaction)[]
-  ) => Promise<(Transaction | VersionedTransaction)[]>;
-  signMessage: (message: Uint8Array | string, display?: DisplayEncoding) => Promise<any>;
-  signIn: (signInData: SolanaSignInInput) => Promise<{
-    address: PublicKey, signedMessage: Uint8Array, signature: Buffer
-  }>;
-  connect: (opts?: Partial<ConnectOpts>) => Promise<{ publicKey: PublicKey }>;
-  disconnect: () => Promise<void>;
-  on: (event: PhantomEvent, handler: (args: any) => void) => void;
-  request: (method: PhantomRequestMethod, params: any) => Promise<unknown>;
+  sendTransaction: WalletAdapterProps['sendTransaction'];
+  signTransaction?: SignerWalletAdapterProps['signTransaction'];
+  signAllTransactions?: SignerWalletAdapterProps['signAllTransactions'];
+  signMessage?: MessageSignerWalletAdapterProps['signMessage'];
+  signIn?: SignInMessageSignerWalletAdapterProps['signIn'];
 }
 
+export type WalletFeature = Exclude<keyof WalletCapabilities, 'publicKey'>;
+
 export type Status = 'success' | 'warning' | 'error' | 'info';
 
 export interface TLog {
   status: Status;
-  method?: PhantomRequestMethod | Extract<PhantomEvent, 'accountChanged'>;
+  /** The wallet method or event behind the entry, or `sessionKey` for what a delegated session key signed */
+  method?: WalletMethod | Extract<WalletEvent, 'accountChanged'> | 'sessionKey';
   confirmation?: {signature: string, link: string};
   message: string;
   messageTwo?: string;
+  report?: SignInReport;
+  /** Raw data behind the entry, e.g. the sign-in input and output, shown as collapsible JSON */
+  payload?: unknown;
+  /** The HTTP request behind the entry, e.g. a verifier call, which can be copied as curl */
+  request?: HttpRequest;
+  /** The error behind a failed entry, see `describeError` */
+  error?: TLogError;
+}
+
+export interface TLogError {
+  /** Class of the error, e.g. `UserRejectedError` or `RpcError` */
+  name: string;
+  message: string;
+  /** The wallet or RPC error code, e.g. 4001 or -32603 */
+  code?: number;
+  /** Whether trying again may succeed; unknown for errors the app did not classify */
+  retryable?: boolean;
+  /** Message of the error that was caught, when it differs */
+  cause?: string;
+  failedChecks?: SignInCheckName[];
+}
+
+/**
+ * A `TLog` as kept by the log console
+ */
+export interface TLogEntry extends TLog {
+  id: string;
+  /** When the entry was logged, in milliseconds since the epoch */
+  timestamp: number;
+}
+
+export interface HttpRequest {
+  url: string;
+  method: 'GET' | 'POST';
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * A `SolanaSignInOutput` with its byte fields base58-encoded so it can be sent over the wire
+ */
+export interface SerializedSignInOutput {
+  account: {
+    address: string;
+    publicKey: string;
+  };
+  signedMessage: string;
+  signature: string;
+}
+
+export interface SignInVerification {
+  verified: boolean;
+  address?: string;
+  chainId?: string;
+  /** For a multisig sign-in, the member key that signed for the vault `address` */
+  signer?: string;
+  /** Set when the sign-in message delegated to a session key */
+  delegation?: Delegation;
+  /** Set when the sign-in message granted capabilities through a ReCap resource */
+  capabilities?: Capabilities;
+  error?: string;
+  /** Issued by the server once the sign-in is verified */
+  session?: Session;
+}
+
+/**
+ * Permissions a sign-in grants, by the URI of the service they are granted on,
+ * e.g. `{ 'https://api.example.com': ['read:profile', 'post:comments'] }`
+ */
+export type Capabilities = Record<string, string[]>;
+
+/** What a wallet authorizes a session key to do, carried as a resource of its sign-in message */
+export interface Delegation {
+  /** Base58 public key of the session key */
+  sessionKey: string;
+  /** Actions the session key may sign, e.g. `sign-message` */
+  scope: string[];
+  /** ISO 8601 timestamp after which the session key may no longer act */
+  expirationTime: string;
+}
+
+/** What a session key signs; the JSON is signed as sent, so it needs no canonical form */
+export interface DelegatedAction {
+  action: string;
+  payload?: unknown;
+  issuedAt: string;
+  /** Random id, so the server accepts a request only once */
+  requestId: string;
+}
+
+/** A request signed by a session key, with the sign-in that proves the wallet delegated to it */
+export interface SignedDelegatedRequest {
+  /** The wallet's sign-in output, whose message carries the delegation */
+  delegation: SerializedSignInOutput;
+  /** Base58 of the JSON of the `DelegatedAction` */
+  request: string;
+  /** Base58 signature of `request` by the session key */
+  signature: string;
+}
+
+export interface DelegatedVerification {
+  verified: boolean;
+  /** The wallet the session key acts for */
+  address?: string;
+  sessionKey?: string;
+  action?: string;
+  payload?: unknown;
+  error?: string;
+}
+
+export type SignInCheckName =
+  | 'message'
+  | 'signature'
+  | 'address'
+  | 'domain'
+  | 'uri'
+  | 'statement'
+  | 'chainId'
+  | 'nonce'
+  | 'issuedAt'
+  | 'expirationTime'
+  | 'notBefore'
+  | 'resources';
+
+export interface SignInCheck {
+  name: SignInCheckName;
+  passed: boolean;
+  message: string;
+}
+
+export interface SignInReport {
+  /** True only if every check passed */
+  verified: boolean;
+  checks: SignInCheck[];
+}
+
+export interface Session {
+  /** Signed token to send as a bearer token */
+  token: string;
+  address: string;
+  chainId: string;
+  /** For a multisig sign-in, the member key that signed for the vault `address` */
+  signer?: string;
+  /** What the sign-in granted, see `Capabilities` */
+  capabilities?: Capabilities;
+  /** Expiry, in milliseconds since the epoch */
+  expiresAt: number;
 }
@@ -0,0 +1,237 @@
+/**
+ * @jest-environment node
+ */
+import { Buffer } from 'buffer';
+import { AccountInfo, Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+
+import authorize, { AuthorizationConnection, AuthorizationRule, evaluateRule } from './authorize';
+import { RpcError } from './errors';
+
+const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+
+const ADDRESS = Keypair.fromSeed(new Uint8Array(32).fill(1)).publicKey;
+const OTHER = Keypair.fromSeed(new Uint8Array(32).fill(2)).publicKey;
+const MINT = Keypair.fromSeed(new Uint8Array(32).fill(3)).publicKey;
+const COLLECTION = Keypair.fromSeed(new Uint8Array(32).fill(4)).publicKey;
+const MULTISIG = Keypair.fromSeed(new Uint8Array(32).fill(5)).publicKey;
+
+/** A chain where `ADDRESS` has 2 SOL, 5 tokens of `MINT` and an NFT of `COLLECTION`, and signs `MULTISIG` */
+const createConnection = (): jest.Mocked<AuthorizationConnection> => {
+  const getBalance: AuthorizationConnection['getBalance'] = async () => 2 * LAMPORTS_PER_SOL;
+  const getAccountInfo: AuthorizationConnection['getAccountInfo'] = async () => {
+    return createAccount(TOKEN_PROGRAM_ID, createMultisig([OTHER, ADDRESS]));
+  };
+  const getMultipleAccountsInfo: AuthorizationConnection['getMultipleAccountsInfo'] = async (keys) => {
+    return keys.map(() => createAccount(TOKEN_PROGRAM_ID, createMetadata(COLLECTION)));
+  };
+  const getParsedTokenAccountsByOwner: AuthorizationConnection['getParsedTokenAccountsByOwner'] = async (
+    _,
+    filter
+  ) => ({
+    context: { slot: 0 },
+    value: [
+      'mint' in filter
+        ? createTokenAccount(filter.mint.toBase58(), { amount: '5', decimals: 0, uiAmountString: '5' })
+        : createTokenAccount(MINT.toBase58(), { amount: '1', decimals: 0, uiAmountString: '1' }),
+    ],
+  });
+
+  return {
+    getBalance: jest.fn(getBalance),
+    getAccountInfo: jest.fn(getAccountInfo),
+    getMultipleAccountsInfo: jest.fn(getMultipleAccountsInfo),
+    getParsedTokenAccountsByOwner: jest.fn(getParsedTokenAccountsByOwner),
+  };
+};
+
+const createAccount = (owner: PublicKey, data: Buffer): AccountInfo<Buffer> => ({
+  owner,
+  data,
+  executable: false,
+  lamports: 1,
+});
+
+const createTokenAccount = (
+  mint: string,
+  tokenAmount: { amount: string; decimals: number; uiAmountString: string }
+) => ({
+  pubkey: PublicKey.default,
+  account: {
+    ...createAccount(TOKEN_PROGRAM_ID, Buffer.alloc(0)),
+    data: { program: 'spl-token', parsed: { info: { mint, tokenAmount } }, space: 165 },
+  },
+});
+
+/** SPL Token multisig: m, n, is_initialized, then 11 signer slots */
+const createMultisig = (signers: PublicKey[]): Buffer => {
+  const data = Buffer.alloc(355);
+  data.set([1, signers.length, 1]);
+  signers.forEach((signer, i) => data.set(signer.toBytes(), 3 + i * 32));
+  return data;
+};
+
+/** Metaplex metadata without creators, edition nonce or token standard, in a verified collection */
+const createMetadata = (collection: PublicKey): Buffer => {
+  const string = (value: string) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(value.length);
+    return Buffer.concat([length, Buffer.from(value)]);
+  };
+  return Buffer.concat([
+    Buffer.alloc(1 + 32 + 32),
+    string('Name'),
+    string('SYM'),
+    string('https://example.com/nft.json'),
+    Buffer.from([0, 0, 0, 0, 1, 0, 0, 1, 1]),
+    collection.toBuffer(),
+  ]);
+};
+
+const evaluate = (rule: AuthorizationRule, connection = createConnection()) => {
+  return evaluateRule(rule, ADDRESS.toBase58(), connection);
+};
+
+describe('evaluateRule', () => {
+  it.each<[string, AuthorizationRule, AuthorizationRule]>([
+    [
+      'allowlist',
+      { type: 'allowlist', addresses: [ADDRESS.toBase58()] },
+      { type: 'allowlist', addresses: [OTHER.toBase58()] },
+    ],
+    ['minBalance', { type: 'minBalance', sol: 2 }, { type: 'minBalance', sol: 2.5 }],
+    [
+      'tokenHolder',
+      { type: 'tokenHolder', mint: MINT.toBase58(), minAmount: 5 },
+      { type: 'tokenHolder', mint: MINT.toBase58(), minAmount: 6 },
+    ],
+    [
+      'collection',
+      { type: 'collection', collection: COLLECTION.toBase58() },
+      { type: 'collection', collection: OTHER.toBase58() },
+    ],
+  ])('checks %s', async (_, passing, failing) => {
+    expect((await evaluate(passing)).passed).toBe(true);
+    expect((await evaluate(failing)).passed).toBe(false);
+  });
+
+  it('checks multisigMember', async () => {
+    const connection = createConnection();
+    expect((await evaluate({ type: 'multisigMember', multisig: MULTISIG.toBase58() }, connection)).passed).toBe(true);
+
+    connection.getAccountInfo.mockResolvedValue(createAccount(TOKEN_PROGRAM_ID, createMultisig([OTHER])));
+    expect((await evaluate({ type: 'multisigMember', multisig: MULTISIG.toBase58() }, connection)).passed).toBe(false);
+
+    connection.getAccountInfo.mockResolvedValue(createAccount(PublicKey.default, createMultisig([ADDRESS])));
+    expect(await evaluate({ type: 'multisigMember', multisig: MULTISIG.toBase58() }, connection)).toMatchObject({
+      passed: false,
+      message: `${MULTISIG.toBase58()} is not an SPL Token multisig`,
+    });
+  });
+
+  it('throws an RpcError when the chain read of a single rule fails', async () => {
+    const connection = createConnection();
+    connection.getBalance.mockRejectedValue(new Error('429 Too Many Requests'));
+
+    await expect(evaluate({ type: 'minBalance', sol: 1 }, connection)).rejects.toBeInstanceOf(RpcError);
+  });
+
+  describe('anyOf', () => {
+    it('stops at the first passing rule', async () => {
+      const connection = createConnection();
+      const result = await evaluate(
+        {
+          type: 'anyOf',
+          rules: [
+            { type: 'allowlist', addresses: [ADDRESS.toBase58()] },
+            { type: 'minBalance', sol: 1 },
+          ],
+        },
+        connection
+      );
+
+      expect(result).toMatchObject({ passed: true, message: '1 of 2 rules passed, 1 not checked' });
+      expect(result.rules).toHaveLength(1);
+      expect(connection.getBalance).not.toHaveBeenCalled();
+    });
+
+    it('counts a rule whose chain read failed as not passing', async () => {
+      const connection = createConnection();
+      connection.getBalance.mockRejectedValue(new Error('429 Too Many Requests'));
+      const result = await evaluate(
+        {
+          type: 'anyOf',
+          rules: [
+            { type: 'minBalance', sol: 1 },
+            { type: 'tokenHolder', mint: MINT.toBase58() },
+          ],
+        },
+        connection
+      );
+
+      expect(result.passed).toBe(true);
+      expect(result.rules?.map(({ passed }) => passed)).toEqual([false, true]);
+      expect(result.rules?.[0].message).toBe('Could not be checked: RPC getBalance failed: 429 Too Many Requests');
+    });
+
+    it('fails when no rule passes', async () => {
+      const result = await evaluate({
+        type: 'anyOf',
+        rules: [
+          { type: 'allowlist', addresses: [] },
+          { type: 'minBalance', sol: 3 },
+        ],
+      });
+
+      expect(result).toMatchObject({ passed: false, message: '0 of 2 rules passed' });
+    });
+  });
+
+  describe('allOf', () => {
+    it('stops at the first failing rule', async () => {
+      const connection = createConnection();
+      const result = await evaluate(
+        {
+          type: 'allOf',
+          rules: [
+            { type: 'allowlist', addresses: [] },
+            { type: 'minBalance', sol: 1 },
+          ],
+        },
+        connection
+      );
+
+      expect(result).toMatchObject({ passed: false, message: '0 of 2 rules passed, 1 not checked' });
+      expect(connection.getBalance).not.toHaveBeenCalled();
+    });
+
+    it('passes when every rule passes', async () => {
+      const result = await evaluate({
+        type: 'allOf',
+        rules: [
+          { type: 'allowlist', addresses: [ADDRESS.toBase58()] },
+          { type: 'anyOf', rules: [{ type: 'minBalance', sol: 1 }] },
+        ],
+      });
+
+      expect(result).toMatchObject({ passed: true, message: '2 of 2 rules passed' });
+    });
+  });
+});
+
+describe('authorize', () => {
+  const config = { roles: { member: { type: 'minBalance', sol: 1 } as AuthorizationRule } };
+
+  it('grants a role whose rule passes', async () => {
+    expect(await authorize(ADDRESS.toBase58(), 'member', createConnection(), config)).toMatchObject({
+      address: ADDRESS.toBase58(),
+      role: 'member',
+      authorized: true,
+    });
+  });
+
+  it('rejects an unknown role', async () => {
+    await expect(authorize(ADDRESS.toBase58(), 'admin', createConnection(), config)).rejects.toThrow(
+      'Unknown role: admin'
+    );
+  });
+});
@@ -0,0 +1,292 @@
+import { Buffer } from 'buffer';
+import { Connection, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+
+import { withRpcError } from './errors';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+/**
+ * A condition on a signed-in address:
+ * - `allowlist`: the address is one of `addresses`
+ * - `minBalance`: the account holds at least `sol` SOL
+ * - `tokenHolder`: the address holds at least `minAmount` (default: any) of the SPL token `mint`, e.g. an NFT
+ * - `collection`: the address holds an NFT of the verified Metaplex collection `collection`
+ * - `multisigMember`: the address is a signer of the SPL Token multisig `multisig`
+ * - `anyOf` / `allOf`: at least one / every rule of `rules` passes. The rules are checked in order, only until the
+ *   outcome is known, and one whose chain read failed counts as not passing
+ */
+export type AuthorizationRule =
+  | { type: 'allowlist'; addresses: string[] }
+  | { type: 'minBalance'; sol: number }
+  | { type: 'tokenHolder'; mint: string; minAmount?: number }
+  | { type: 'collection'; collection: string }
+  | { type: 'multisigMember'; multisig: string }
+  | { type: 'anyOf'; rules: AuthorizationRule[] }
+  | { type: 'allOf'; rules: AuthorizationRule[] };
+
+export interface AuthorizationConfig {
+  /** Each role is granted by one rule */
+  roles: Record<string, AuthorizationRule>;
+}
+
+/** The chain reads rules need, so a stub can stand in for a `Connection` */
+export type AuthorizationConnection = Pick<
+  Connection,
+  'getBalance' | 'getAccountInfo' | 'getMultipleAccountsInfo' | 'getParsedTokenAccountsByOwner'
+>;
+
+export interface RuleResult {
+  type: AuthorizationRule['type'];
+  passed: boolean;
+  message: string;
+  /** Results of the nested rules of `anyOf` and `allOf` that were checked, in order */
+  rules?: RuleResult[];
+}
+
+export interface AuthorizationResult {
+  address: string;
+  role: string;
+  authorized: boolean;
+  result: RuleResult;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+const TOKEN_METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+
+// SPL Token multisig: m (u8), n (u8), is_initialized (bool), then 11 signer slots
+const MULTISIG_SIZE = 355;
+const MULTISIG_SIGNERS_OFFSET = 3;
+
+// `getMultipleAccountsInfo` accepts at most this many keys per request
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Reads the collection of a Metaplex metadata account, skipping the fields before it
+ * @param   {Buffer} data the account data
+ * @returns {Object}      the collection key and whether it is verified, or null if the NFT has none
+ */
+const readCollection = (data: Buffer): { key: PublicKey; verified: boolean } | null => {
+  // key, update authority, mint
+  let offset = 1 + 32 + 32;
+  // name, symbol, uri
+  for (let i = 0; i < 3; i++) offset += 4 + data.readUInt32LE(offset);
+  // seller fee basis points
+  offset += 2;
+  // creators, 34 bytes each
+  if (data[offset++] === 1) offset += 4 + data.readUInt32LE(offset) * 34;
+  // primary sale happened, is mutable
+  offset += 2;
+  // edition nonce, token standard
+  for (let i = 0; i < 2; i++) if (data[offset++] === 1) offset += 1;
+
+  if (data[offset++] !== 1) return null;
+  return { verified: data[offset] === 1, key: new PublicKey(data.subarray(offset + 1, offset + 33)) };
+};
+
+const getHeldNftMints = async (owner: PublicKey, connection: AuthorizationConnection): Promise<PublicKey[]> => {
+  const { value } = await withRpcError(
+    'getParsedTokenAccountsByOwner',
+    connection.getParsedTokenAccountsByOwner(owner, { programId: TOKEN_PROGRAM_ID })
+  );
+  return value
+    .map(({ account }) => account.data.parsed.info)
+    .filter(({ tokenAmount }) => tokenAmount.decimals === 0 && tokenAmount.amount === '1')
+    .map(({ mint }) => new PublicKey(mint));
+};
+
+const evaluateAllowlist = (addresses: string[], owner: PublicKey): RuleResult => {
+  const passed = addresses.includes(owner.toBase58());
+  return { type: 'allowlist', passed, message: passed ? 'Address is allowlisted' : 'Address is not allowlisted' };
+};
+
+const evaluateMinBalance = async (
+  sol: number,
+  owner: PublicKey,
+  connection: AuthorizationConnection
+): Promise<RuleResult> => {
+  const lamports = await withRpcError('getBalance', connection.getBalance(owner));
+  return {
+    type: 'minBalance',
+    passed: lamports >= sol * LAMPORTS_PER_SOL,
+    message: `Balance of ${lamports / LAMPORTS_PER_SOL} SOL, at least ${sol} SOL required`,
+  };
+};
+
+const evaluateTokenHolder = async (
+  mint: string,
+  minAmount: number | undefined,
+  owner: PublicKey,
+  connection: AuthorizationConnection
+): Promise<RuleResult> => {
+  const { value } = await withRpcError(
+    'getParsedTokenAccountsByOwner',
+    connection.getParsedTokenAccountsByOwner(owner, { mint: new PublicKey(mint) })
+  );
+  const amount = value.reduce(
+    (sum, { account }) => sum + Number(account.data.parsed.info.tokenAmount.uiAmountString),
+    0
+  );
+  return {
+    type: 'tokenHolder',
+    passed: minAmount === undefined ? amount > 0 : amount >= minAmount,
+    message: `Holds ${amount} of ${mint}, ${minAmount === undefined ? 'any amount' : `at least ${minAmount}`} required`,
+  };
+};
+
+const evaluateCollection = async (
+  collection: string,
+  owner: PublicKey,
+  connection: AuthorizationConnection
+): Promise<RuleResult> => {
+  const metadataAddresses = (await getHeldNftMints(owner, connection)).map(
+    (mint) =>
+      PublicKey.findProgramAddressSync(
+        [Buffer.from('metadata'), TOKEN_METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+        TOKEN_METADATA_PROGRAM_ID
+      )[0]
+  );
+
+  for (let i = 0; i < metadataAddresses.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+    const accounts = await withRpcError(
+      'getMultipleAccountsInfo',
+      connection.getMultipleAccountsInfo(metadataAddresses.slice(i, i + MAX_ACCOUNTS_PER_REQUEST))
+    );
+    const held = accounts.some((account) => {
+      const nftCollection = account && readCollection(account.data);
+      return nftCollection?.verified && nftCollection.key.toBase58() === collection;
+    });
+    if (held) return { type: 'collection', passed: true, message: `Holds an NFT of collection ${collection}` };
+  }
+  return { type: 'collection', passed: false, message: `Holds no NFT of collection ${collection}` };
+};
+
+const evaluateMultisigMember = async (
+  multisig: string,
+  owner: PublicKey,
+  connection: AuthorizationConnection
+): Promise<RuleResult> => {
+  const account = await withRpcError('getAccountInfo', connection.getAccountInfo(new PublicKey(multisig)));
+  if (!account || !account.owner.equals(TOKEN_PROGRAM_ID) || account.data.length !== MULTISIG_SIZE) {
+    return { type: 'multisigMember', passed: false, message: `${multisig} is not an SPL Token multisig` };
+  }
+
+  const signerCount = account.data[1];
+  const signers = Array.from({ length: signerCount }, (_, i) => {
+    const offset = MULTISIG_SIGNERS_OFFSET + i * 32;
+    return new PublicKey(account.data.subarray(offset, offset + 32));
+  });
+  const passed = signers.some((signer) => signer.equals(owner));
+  return {
+    type: 'multisigMember',
+    passed,
+    message: `${passed ? 'Is' : 'Is not'} one of the ${signerCount} signers of multisig ${multisig}`,
+  };
+};
+
+/**
+ * Evaluates the rules of `anyOf` or `allOf` one at a time, so a passing rule saves the reads of the next ones
+ * @param   {String}                  type       `anyOf` or `allOf`
+ * @param   {AuthorizationRule[]}     rules      the nested rules, cheapest first
+ * @param   {String}                  address    a signed-in address
+ * @param   {AuthorizationConnection} connection an RPC connection, or a stub
+ * @returns {RuleResult}                         whether the combination passed, with the results of the rules checked
+ */
+const evaluateCombination = async (
+  type: 'anyOf' | 'allOf',
+  rules: AuthorizationRule[],
+  address: string,
+  connection: AuthorizationConnection
+): Promise<RuleResult> => {
+  const results: RuleResult[] = [];
+  for (const nested of rules) {
+    let result: RuleResult;
+    try {
+      result = await evaluateRule(nested, address, connection);
+    } catch (error) {
+      result = { type: nested.type, passed: false, message: `Could not be checked: ${error.message}` };
+    }
+    results.push(result);
+    // The first passing rule decides `anyOf`, the first failing one `allOf`
+    if (result.passed === (type === 'anyOf')) break;
+  }
+
+  const count = results.filter(({ passed }) => passed).length;
+  const passed = type === 'anyOf' ? count > 0 : count === rules.length;
+  const skipped = rules.length - results.length;
+  return {
+    type,
+    passed,
+    message: `${count} of ${rules.length} rules passed${skipped ? `, ${skipped} not checked` : ''}`,
+    rules: results,
+  };
+};
+
+// =============================================================================
+// Main Functions
+// =============================================================================
+
+/**
+ * Evaluates a rule against an address, reading the chain through `connection`
+ * @param   {AuthorizationRule}       rule       the rule
+ * @param   {String}                  address    a signed-in address
+ * @param   {AuthorizationConnection} connection an RPC connection, or a stub
+ * @returns {RuleResult}                         whether the rule passed, and why
+ * @throws  {RpcError} when a chain read fails, except within `anyOf` and `allOf`
+ */
+export const evaluateRule = async (
+  rule: AuthorizationRule,
+  address: string,
+  connection: AuthorizationConnection
+): Promise<RuleResult> => {
+  const owner = new PublicKey(address);
+
+  switch (rule.type) {
+    case 'allowlist':
+      return evaluateAllowlist(rule.addresses, owner);
+    case 'minBalance':
+      return evaluateMinBalance(rule.sol, owner, connection);
+    case 'tokenHolder':
+      return evaluateTokenHolder(rule.mint, rule.minAmount, owner, connection);
+    case 'collection':
+      return evaluateCollection(rule.collection, owner, connection);
+    case 'multisigMember':
+      return evaluateMultisigMember(rule.multisig, owner, connection);
+    case 'anyOf':
+    case 'allOf':
+      return evaluateCombination(rule.type, rule.rules, address, connection);
+  }
+};
+
+/**
+ * Checks whether a signed-in address has a role
+ * @param   {String}                  address    a signed-in address, e.g. that of the session
+ * @param   {String}                  role       a role of `config`
+ * @param   {AuthorizationConnection} connection an RPC connection, or a stub
+ * @param   {AuthorizationConfig}     config     the roles and the rules granting them
+ * @returns {AuthorizationResult}                whether the address has the role, and why
+ * @throws  {RpcError} when a chain read fails
+ */
+const authorize = async (
+  address: string,
+  role: string,
+  connection: AuthorizationConnection,
+  config: AuthorizationConfig
+): Promise<AuthorizationResult> => {
+  const rule = config.roles[role];
+  if (!rule) throw new Error(`Unknown role: ${role}`);
+
+  const result = await evaluateRule(rule, address, connection);
+  return { address, role, authorized: result.passed, result };
+};
+
+export default authorize;
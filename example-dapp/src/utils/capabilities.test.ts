@@ -0,0 +1,40 @@
+/**
+ * @jest-environment node
+ */
+import { Capabilities } from '../types';
+
+import { createRecapResource, isCapabilities, parseRecapResource, RECAP_RESOURCE_PREFIX } from './capabilities';
+
+describe('ReCap resources', () => {
+  it('decodes the capabilities it encodes, as base64url', () => {
+    const capabilities = { 'https://api.example.com/é': ['post:comments', 'read:profile'] };
+    const resource = createRecapResource(capabilities);
+
+    expect(resource.slice(RECAP_RESOURCE_PREFIX.length)).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(parseRecapResource(resource)).toEqual(capabilities);
+  });
+
+  it('encodes capabilities too large to pass as arguments at once', () => {
+    const capabilities: Capabilities = {};
+    for (let i = 0; i < 5000; i++) capabilities[`https://service-${i}.example.com`] = ['read:profile'];
+
+    expect(parseRecapResource(createRecapResource(capabilities))).toEqual(capabilities);
+  });
+
+  it('rejects a resource that is not a ReCap', () => {
+    expect(parseRecapResource(`${RECAP_RESOURCE_PREFIX}not+base64url`)).toBeNull();
+    expect(parseRecapResource('https://example.com')).toBeNull();
+  });
+});
+
+describe('isCapabilities', () => {
+  it.each([
+    ['no service', {}],
+    ['a relative service', { '/api': ['read:profile'] }],
+    ['a service without permissions', { 'https://example.com': [] }],
+    ['a malformed permission', { 'https://example.com': ['profile/read'] }],
+    ['a list', ['read:profile']],
+  ])('rejects %s', (_, value) => {
+    expect(isCapabilities(value)).toBe(false);
+  });
+});
@@ -0,0 +1,205 @@
+import { Capabilities } from '../types';
+
+import { encodeBytes } from './verifySignedMessage';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+/**
+ * The object a ReCap resource encodes, as in EIP-5573: the abilities granted on each target URI, keyed
+ * `<namespace>/<ability>` with a list of caveats, and the proofs (CIDs) of delegated capabilities
+ */
+export interface Recap {
+  att: Record<string, Record<string, Record<string, unknown>[]>>;
+  prf: string[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const RECAP_RESOURCE_PREFIX = 'urn:recap:';
+
+/** `<action>:<namespace>`, e.g. `read:profile`, which a ReCap keys `profile/read` */
+const PERMISSION = /^([a-z][a-z0-9-]*):([a-z][a-z0-9-]*)$/;
+const ABILITY = /^([a-z][a-z0-9-]*)\/([a-z][a-z0-9-]*)$/;
+const URI = /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s]+$/;
+const BASE64URL = /^[A-Za-z0-9_-]+$/;
+
+const STATEMENT_PREFIX = 'I further authorize the stated URI to perform the following actions on my behalf:';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const toBase64Url = (text: string): string => {
+  return encodeBytes(new TextEncoder().encode(text), 'base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/** The namespaces granted on a service and their abilities, sorted as EIP-5573 orders them */
+const namespacesOf = (permissions: string[]): [string, string[]][] => {
+  const namespaces: Record<string, string[]> = {};
+  for (const permission of permissions) {
+    const [, action, namespace] = PERMISSION.exec(permission) ?? [];
+    namespaces[namespace] = [...(namespaces[namespace] ?? []), action];
+  }
+  return Object.keys(namespaces)
+    .sort()
+    .map((namespace) => [namespace, Array.from(new Set(namespaces[namespace])).sort()]);
+};
+
+// =============================================================================
+// Capabilities
+// =============================================================================
+
+/**
+ * Checks that capabilities map absolute service URIs to permissions such as `read:profile`
+ * @param   {Capabilities} value the capabilities to check
+ * @returns {Boolean}            whether every service grants at least one valid permission
+ */
+export const isCapabilities = (value: unknown): value is Capabilities => {
+  if (!isObject(value) || !Object.keys(value).length) return false;
+  return Object.entries(value).every(([service, permissions]) => {
+    if (!URI.test(service) || !Array.isArray(permissions) || !permissions.length) return false;
+    return permissions.every((permission) => typeof permission === 'string' && PERMISSION.test(permission));
+  });
+};
+
+/**
+ * Checks whether capabilities grant a permission on a service
+ * @param   {Capabilities} capabilities the capabilities of a session
+ * @param   {String}       service      URI of the service
+ * @param   {String}       permission   the permission, e.g. `post:comments`
+ * @returns {Boolean}                   whether it was granted
+ */
+export const hasCapability = (capabilities: Capabilities | undefined, service: string, permission: string): boolean => {
+  return capabilities?.[service]?.includes(permission) ?? false;
+};
+
+// =============================================================================
+// Resources
+// =============================================================================
+
+/**
+ * Encodes capabilities as a ReCap resource, `urn:recap:<base64url of the JSON of a Recap>`
+ * @param   {Capabilities} capabilities the permissions granted per service
+ * @returns {String}                    the resource URI
+ */
+export const createRecapResource = (capabilities: Capabilities): string => {
+  const att: Recap['att'] = {};
+  for (const service of Object.keys(capabilities).sort()) {
+    att[service] = {};
+    for (const [namespace, actions] of namespacesOf(capabilities[service])) {
+      for (const action of actions) att[service][`${namespace}/${action}`] = [{}];
+    }
+  }
+  const recap: Recap = { att, prf: [] };
+  return `${RECAP_RESOURCE_PREFIX}${toBase64Url(JSON.stringify(recap))}`;
+};
+
+/**
+ * Decodes a ReCap resource. Abilities outside the `<namespace>/<ability>` form this app grants are rejected.
+ * @param   {String}       resource a sign-in resource
+ * @returns {Capabilities}          the permissions granted per service, or null if the resource is not a valid ReCap
+ */
+export const parseRecapResource = (resource: string): Capabilities | null => {
+  if (!resource.startsWith(RECAP_RESOURCE_PREFIX)) return null;
+
+  const encoded = resource.slice(RECAP_RESOURCE_PREFIX.length);
+  if (!BASE64URL.test(encoded)) return null;
+
+  let recap: unknown;
+  try {
+    recap = JSON.parse(fromBase64Url(encoded));
+  } catch (error) {
+    return null;
+  }
+  if (!isObject(recap) || !isObject(recap.att)) return null;
+
+  const capabilities: Capabilities = {};
+  for (const [service, abilities] of Object.entries(recap.att)) {
+    if (!isObject(abilities)) return null;
+    capabilities[service] = Object.keys(abilities).map((ability) => {
+      const [, namespace, action] = ABILITY.exec(ability) ?? [];
+      return `${action}:${namespace}`;
+    });
+  }
+  return isCapabilities(capabilities) ? capabilities : null;
+};
+
+/**
+ * Finds the capabilities among the resources of a sign-in, merging those of every ReCap
+ * @param   {String[]}     resources the resources of a sign-in input or message
+ * @returns {Capabilities}           the permissions granted per service, or null if there is no ReCap
+ * @throws  {Error} if a ReCap resource is malformed
+ */
+export const findCapabilities = (resources: readonly string[] = []): Capabilities | null => {
+  let found: Capabilities | null = null;
+  for (const resource of resources) {
+    if (!resource.startsWith(RECAP_RESOURCE_PREFIX)) continue;
+
+    const capabilities = parseRecapResource(resource);
+    if (!capabilities) throw new Error(`"${resource}" is not a valid ReCap`);
+    for (const [service, permissions] of Object.entries(capabilities)) {
+      found = { ...found, [service]: Array.from(new Set([...(found?.[service] ?? []), ...permissions])) };
+    }
+  }
+  return found;
+};
+
+// =============================================================================
+// Statement
+// =============================================================================
+
+/**
+ * Renders capabilities as the sentence EIP-5573 appends to the statement, e.g.
+ * `I further authorize the stated URI to perform the following actions on my behalf:
+ * (1) 'profile': 'read' for 'https://example.com'.`
+ * @param   {Capabilities} capabilities the permissions granted per service
+ * @returns {String}                    the human-readable sentence
+ */
+export const createRecapStatement = (capabilities: Capabilities): string => {
+  const grants = Object.keys(capabilities)
+    .sort()
+    .flatMap((service) =>
+      namespacesOf(capabilities[service]).map(([namespace, actions]) => {
+        return `'${namespace}': ${actions.map((action) => `'${action}'`).join(', ')} for '${service}'.`;
+      })
+    );
+  return [STATEMENT_PREFIX, ...grants.map((grant, index) => `(${index + 1}) ${grant}`)].join(' ');
+};
+
+/**
+ * Appends the rendering of capabilities to a statement
+ * @param   {String}       statement    the statement, if any
+ * @param   {Capabilities} capabilities the permissions granted per service
+ * @returns {String}                    the statement the user signs
+ */
+export const appendRecapStatement = (statement: string | undefined, capabilities: Capabilities): string => {
+  const recapStatement = createRecapStatement(capabilities);
+  return statement ? `${statement} ${recapStatement}` : recapStatement;
+};
+
+/**
+ * Checks that a signed statement ends with the rendering of the capabilities its ReCap grants,
+ * so the user was shown what they signed for
+ * @param   {String}       statement    the signed statement
+ * @param   {Capabilities} capabilities the capabilities decoded from the resources
+ * @returns {Boolean}                   whether the statement describes them
+ */
+export const checkRecapStatement = (statement: string | undefined, capabilities: Capabilities): boolean => {
+  return statement?.endsWith(createRecapStatement(capabilities)) ?? false;
+};
@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+import { clusterApiUrl } from '@solana/web3.js';
+
+import { getClusterConfig, normalizeChainId, parseCluster, requireCluster } from './cluster';
+
+describe('parseCluster', () => {
+  it.each([
+    ['devnet', 'devnet'],
+    ['solana:mainnet', 'mainnet'],
+    ['mainnet-beta', 'mainnet'],
+    ['solana:mainnet-beta', 'mainnet'],
+    ['localhost', 'localnet'],
+    ['testnet', 'testnet'],
+  ])('resolves %p to %p', (value, cluster) => {
+    expect(parseCluster(value)).toBe(cluster);
+  });
+
+  it.each(['devnett', 'ethereum:1', 'solana:', '', 'Devnet'])('returns null for %p', (value) => {
+    expect(parseCluster(value)).toBeNull();
+  });
+});
+
+describe('normalizeChainId', () => {
+  it('spells every alias as the wallet-standard chain id', () => {
+    expect(normalizeChainId('mainnet-beta')).toBe('solana:mainnet');
+    expect(normalizeChainId('solana:devnet')).toBe('solana:devnet');
+    expect(normalizeChainId('localhost')).toBe('solana:localnet');
+    expect(normalizeChainId('devnett')).toBeNull();
+  });
+});
+
+describe('requireCluster', () => {
+  it('throws on an unknown cluster, rather than falling back to another one', () => {
+    expect(requireCluster('mainnet-beta')).toBe('mainnet');
+    expect(() => requireCluster('mainet')).toThrow(
+      'REACT_APP_SOLANA_CLUSTER must be one of mainnet, devnet, testnet, localnet or an alias, not "mainet"'
+    );
+  });
+});
+
+describe('getClusterConfig', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env };
+    delete process.env.REACT_APP_HELIUS_API;
+    delete process.env.REACT_APP_RPC_ENDPOINT;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('uses the public endpoints by default, and a local validator for localnet', () => {
+    expect(getClusterConfig('devnet')).toEqual({
+      cluster: 'devnet',
+      chainId: 'solana:devnet',
+      endpoint: clusterApiUrl('devnet'),
+      network: 'devnet',
+    });
+    expect(getClusterConfig('mainnet').endpoint).toBe(clusterApiUrl('mainnet-beta'));
+    expect(getClusterConfig('localnet')).toEqual({
+      cluster: 'localnet',
+      chainId: 'solana:localnet',
+      endpoint: 'http://127.0.0.1:8899',
+      network: undefined,
+    });
+  });
+
+  it('uses Helius for mainnet and devnet when it has an API key', () => {
+    process.env.REACT_APP_HELIUS_API = 'key';
+
+    expect(getClusterConfig('mainnet').endpoint).toBe('https://rpc.helius.xyz/?api-key=key');
+    expect(getClusterConfig('devnet').endpoint).toBe('https://rpc-devnet.helius.xyz/?api-key=key');
+    expect(getClusterConfig('testnet').endpoint).toBe(clusterApiUrl('testnet'));
+  });
+
+  it('uses the endpoint set for every cluster', () => {
+    process.env.REACT_APP_HELIUS_API = 'key';
+    process.env.REACT_APP_RPC_ENDPOINT = 'http://rpc.example.com';
+
+    expect(getClusterConfig('mainnet').endpoint).toBe('http://rpc.example.com');
+    expect(getClusterConfig('localnet').endpoint).toBe('http://rpc.example.com');
+  });
+});
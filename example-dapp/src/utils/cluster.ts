@@ -0,0 +1,129 @@
+import { WalletAdapterNetwork } from '@solana/wallet-adapter-base';
+import { clusterApiUrl } from '@solana/web3.js';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+export type Cluster = 'mainnet' | 'devnet' | 'testnet' | 'localnet';
+
+/** Wallet-standard (CAIP-2 style) chain identifier */
+export type SolanaChainId = `solana:${Cluster}`;
+
+export interface ClusterConfig {
+  cluster: Cluster;
+  chainId: SolanaChainId;
+  /** RPC endpoint used by the `ConnectionProvider` */
+  endpoint: string;
+  network?: WalletAdapterNetwork;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const CLUSTERS: Cluster[] = ['mainnet', 'devnet', 'testnet', 'localnet'];
+
+// Names used by the RPC, the explorers and older sign-in messages
+const ALIASES: Record<string, Cluster> = {
+  'mainnet-beta': 'mainnet',
+  localhost: 'localnet',
+};
+
+const NETWORKS: Record<Cluster, WalletAdapterNetwork | undefined> = {
+  mainnet: WalletAdapterNetwork.Mainnet,
+  devnet: WalletAdapterNetwork.Devnet,
+  testnet: WalletAdapterNetwork.Testnet,
+  localnet: undefined,
+};
+
+const LOCALNET_ENDPOINT = 'http://127.0.0.1:8899';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Resolves a cluster name or chain id, in any of its usual spellings, to a cluster
+ * @param   {String}  value e.g. `solana:devnet`, `devnet`, `mainnet-beta` or `localhost`
+ * @returns {Cluster}       the cluster, or null if it is not a Solana cluster
+ */
+export const parseCluster = (value: string): Cluster | null => {
+  const name = value.startsWith('solana:') ? value.slice('solana:'.length) : value;
+  if (CLUSTERS.includes(name as Cluster)) return name as Cluster;
+  return ALIASES[name] ?? null;
+};
+
+/**
+ * Normalizes a cluster name or chain id to its wallet-standard chain id
+ * @param   {String}        value e.g. `mainnet` or `solana:mainnet`
+ * @returns {SolanaChainId}       e.g. `solana:mainnet`, or null if it is not a Solana cluster
+ */
+export const normalizeChainId = (value: string): SolanaChainId | null => {
+  const cluster = parseCluster(value);
+  return cluster ? `solana:${cluster}` : null;
+};
+
+/**
+ * Resolves the configured cluster; an unknown one fails loudly, rather than pointing the app and the server at
+ * another chain than intended
+ * @param   {String}  value the value of `REACT_APP_SOLANA_CLUSTER`
+ * @returns {Cluster}       the cluster
+ * @throws  {Error} if the value is not a Solana cluster
+ */
+export const requireCluster = (value: string): Cluster => {
+  const cluster = parseCluster(value);
+  if (!cluster) {
+    throw new Error(`REACT_APP_SOLANA_CLUSTER must be one of ${CLUSTERS.join(', ')} or an alias, not "${value}"`);
+  }
+  return cluster;
+};
+
+/**
+ * Creates the configuration for a cluster. Mainnet and devnet use Helius when
+ * `REACT_APP_HELIUS_API` is set, every cluster can be overridden with `REACT_APP_RPC_ENDPOINT`.
+ * @param   {Cluster}       cluster a cluster
+ * @returns {ClusterConfig}         the endpoint, chain id and network of the cluster
+ */
+export const getClusterConfig = (cluster: Cluster): ClusterConfig => {
+  const heliusApiKey = process.env.REACT_APP_HELIUS_API;
+  let endpoint: string;
+  if (process.env.REACT_APP_RPC_ENDPOINT) {
+    endpoint = process.env.REACT_APP_RPC_ENDPOINT;
+  } else if (cluster === 'localnet') {
+    endpoint = LOCALNET_ENDPOINT;
+  } else if (heliusApiKey && cluster !== 'testnet') {
+    endpoint = `https://rpc${cluster === 'devnet' ? '-devnet' : ''}.helius.xyz/?api-key=${heliusApiKey}`;
+  } else {
+    endpoint = clusterApiUrl(NETWORKS[cluster]);
+  }
+
+  return { cluster, chainId: `solana:${cluster}`, endpoint, network: NETWORKS[cluster] };
+};
+
+/**
+ * Creates a link to a transaction on Solscan, or on the Solana Explorer for localnet
+ * @param   {String}  signature a transaction signature
+ * @param   {Cluster} cluster   the cluster the transaction was sent to
+ * @returns {String}            a link to the transaction
+ */
+export const getExplorerLink = (signature: string, cluster: Cluster): string => {
+  switch (cluster) {
+    case 'mainnet':
+      return `https://solscan.io/tx/${signature}`;
+    case 'localnet':
+      return `https://explorer.solana.com/tx/${signature}?cluster=custom&customUrl=${encodeURIComponent(
+        LOCALNET_ENDPOINT
+      )}`;
+    default:
+      return `https://solscan.io/tx/${signature}?cluster=${cluster}`;
+  }
+};
+
+/**
+ * The cluster the app runs against, set with `REACT_APP_SOLANA_CLUSTER`.
+ * The sign-in server reads the same variable, so both agree on the chain id.
+ */
+export const CLUSTER: ClusterConfig = getClusterConfig(
+  requireCluster(process.env.REACT_APP_SOLANA_CLUSTER || 'devnet')
+);
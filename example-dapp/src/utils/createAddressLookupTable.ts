@@ -6,27 +6,29 @@ import {
   VersionedTransaction,
 } from '@solana/web3.js';
 
-import { signAndSendTransaction } from '.';
+import { WalletCapabilities } from '../types';
+import { signAndSendTransaction, withRpcError } from '.';
 
 /**
  * 1. Creates an Address Lookup Table Instruction
  * 2. Signs and sends it in a transactionV0
  * 
- * @param   {String}      publicKey  a public key
+ * @param   {PublicKey}   publicKey  a public key
  * @param   {Connection}  connection an RPC connection
- * @param   {String}  publicKey recent blockhash
- * @returns {[VersionedTransaction, String]} array of transaction
+ * @param   {Function}    sendTx     the wallet adapter's `sendTransaction`
+ * @param   {String}      blockhash  recent blockhash
+ * @returns {[String, PublicKey]}    array of transaction
  *          signature and lookup table address
  */
 const createAddressLookupTable = async (
   publicKey: PublicKey,
   connection: Connection,
-  sendTx,
+  sendTx: WalletCapabilities['sendTransaction'],
   blockhash: string,
 ): Promise<[string, PublicKey]> => {
 
   // get current `slot`
-  let slot = await connection.getSlot();
+  let slot = await withRpcError('getSlot', connection.getSlot());
 
   // create an Address Lookup Table
   const [lookupTableInst, lookupTableAddress] = AddressLookupTableProgram.createLookupTable({
@@ -1,42 +1,32 @@
 import { SolanaSignInInput } from "@solana/wallet-standard-features";
 
-export const createSignInData = async (): Promise<SolanaSignInInput> => {
-  const now: Date = new Date();
-  const uri = window.location.href
-  const currentUrl = new URL(uri);
-  const domain = currentUrl.host;
+import { SIWS_SERVER_URL } from '../constants';
+import { SignInReportOptions } from './createSignInReport';
+import { SignInErrorCase } from './signInErrorCases';
 
-  // Convert the Date object to a string
-  const currentDateTime = now.toISOString();
-  const signInData: SolanaSignInInput = {
-    domain,
-    statement: "Clicking Sign or Approve only means you have proved this wallet is owned by you. This request will not trigger any blockchain transaction or cost any gas fee.",
-    uri,
-    version: "1",
-    nonce: "oBbLoEldZs",
-    chainId: "mainnet",
-    issuedAt: currentDateTime,
-    resources: ["https://example.com", "https://phantom.app/"]
-  };
+/**
+ * Fetches a sign-in input, with a fresh single-use nonce, from the sign-in server
+ * @returns {SolanaSignInInput} the input to pass to the wallet
+ */
+export const createSignInData = async (): Promise<SolanaSignInInput> => {
+  const response = await fetch(`${SIWS_SERVER_URL}/api/signin`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch sign-in data (${response.status})`);
+  }
 
+  const signInData: SolanaSignInInput = await response.json();
   return signInData;
 };
 
-export const createSignInErrorData = async (): Promise<SolanaSignInInput> => {
-  const now: Date = new Date();
-
-  // Convert the Date object to a string
-  const currentDateTime = now.toISOString();
-  const signInData: SolanaSignInInput = {
-    domain: "phishing.com",
-    statement: "Sign-in to connect!",
-    uri: "https://www.phishing.com",
-    version: "1",
-    nonce: "oBbLoEldZs",
-    chainId: "solana:mainnet",
-    issuedAt: currentDateTime,
-    resources: ["https://example.com", "https://phantom.app/"]
-  };
-
-  return signInData;
+/**
+ * Fetches a sign-in input and turns it into the adversarial input of an error case
+ * @param   {SignInErrorCase}     errorCase the case to create the input for
+ * @param   {SignInReportOptions} expected  what the verifier checks against
+ * @returns {SolanaSignInInput}             the input to pass to the wallet
+ */
+export const createSignInErrorData = async (
+  errorCase: SignInErrorCase,
+  expected: SignInReportOptions
+): Promise<SolanaSignInInput> => {
+  return errorCase.createInput(await createSignInData(), expected);
 };
@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+import createSignInInput, { parseDuration, SignInInputError, SignInInputOptions } from './createSignInInput';
+
+const OPTIONS: SignInInputOptions = {
+  domain: 'localhost:3000',
+  uri: 'http://localhost:3000',
+  chainId: 'devnet',
+  nonce: 'a1b2c3d4e5',
+  issuedAt: '2024-01-01T00:00:00.000Z',
+};
+
+/**
+ * Creates an input expected to be rejected
+ * @param   {Object}           options the options overriding the valid ones
+ * @returns {SignInInputError}         the error thrown
+ */
+const inputError = (options: Partial<SignInInputOptions>): SignInInputError => {
+  try {
+    createSignInInput({ ...OPTIONS, ...options });
+  } catch (error) {
+    if (error instanceof SignInInputError) return error;
+    throw error;
+  }
+  throw new Error('The input was created');
+};
+
+describe('parseDuration', () => {
+  it.each([
+    ['500ms', 500],
+    ['30s', 30 * 1000],
+    ['10m', 10 * 60 * 1000],
+    ['2h', 2 * 60 * 60 * 1000],
+    ['1d', 24 * 60 * 60 * 1000],
+    [1500, 1500],
+  ])('converts %p to milliseconds', (duration, ms) => {
+    expect(parseDuration(duration)).toBe(ms);
+  });
+
+  it.each(['-5m', '5', 'five minutes', '1.5h', ''])('returns NaN for %p', (duration) => {
+    expect(parseDuration(duration)).toBeNaN();
+  });
+});
+
+describe('createSignInInput', () => {
+  it('fills in the defaults and normalizes the chain', () => {
+    expect(createSignInInput({ ...OPTIONS, expiresIn: '5m' })).toEqual({
+      domain: 'localhost:3000',
+      statement: expect.any(String),
+      uri: 'http://localhost:3000',
+      version: '1',
+      chainId: 'solana:devnet',
+      nonce: 'a1b2c3d4e5',
+      issuedAt: '2024-01-01T00:00:00.000Z',
+      expirationTime: '2024-01-01T00:05:00.000Z',
+    });
+  });
+
+  it.each<[string, Partial<SignInInputOptions>, keyof SignInInputOptions, string]>([
+    [
+      'a resource that is not a URI',
+      { resources: ['https://example.com', 'example.com'] },
+      'resources',
+      '"example.com" is not an absolute URI',
+    ],
+    [
+      'an issued at that is not ISO 8601',
+      { issuedAt: '2024-01-01 00:00:00' },
+      'issuedAt',
+      '"2024-01-01 00:00:00" is not an ISO 8601 timestamp',
+    ],
+    [
+      'an expiration time that is not a date',
+      { expirationTime: '2024-02-30T25:00:00Z' },
+      'expirationTime',
+      '"2024-02-30T25:00:00Z" is not an ISO 8601 timestamp',
+    ],
+    ['a negative duration', { expiresIn: -1000 }, 'expiresIn', '"-1000" is not a positive duration'],
+    ['a non-numeric duration', { expiresIn: 'soon' }, 'expiresIn', '"soon" is not a positive duration'],
+    [
+      'both an expiration time and a duration',
+      { expirationTime: '2024-01-01T01:00:00.000Z', expiresIn: '5m' },
+      'expiresIn',
+      'cannot be combined with expirationTime',
+    ],
+  ])('rejects %s', (_, options, field, message) => {
+    const error = inputError(options);
+
+    expect(error.field).toBe(field);
+    expect(error.message).toBe(`Invalid ${field}: ${message}`);
+  });
+});
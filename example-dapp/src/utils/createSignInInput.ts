@@ -0,0 +1,192 @@
+import { SolanaSignInInput } from '@solana/wallet-standard-features';
+
+import { Capabilities } from '../types';
+
+import { appendRecapStatement, createRecapResource, isCapabilities } from './capabilities';
+import { CLUSTER, normalizeChainId } from './cluster';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+/** A duration in milliseconds, or a string such as `30s`, `10m`, `2h` or `1d` */
+export type Duration = number | string;
+
+export interface SignInInputOptions {
+  /** Host requesting the sign-in, e.g. `example.com` or `localhost:3000` */
+  domain: string;
+  /** Absolute URI of the resource being signed in to */
+  uri: string;
+  statement?: string;
+  address?: string;
+  version?: string;
+  /** Cluster name or chain id, normalized to e.g. `solana:mainnet` */
+  chainId?: string;
+  /** At least 8 alphanumeric characters, as required by EIP-4361 */
+  nonce?: string;
+  issuedAt?: Date | string;
+  /** Mutually exclusive with `expiresIn` */
+  expirationTime?: Date | string;
+  /** How long after `issuedAt` the sign-in expires */
+  expiresIn?: Duration;
+  notBefore?: Date | string;
+  requestId?: string;
+  resources?: string[];
+  /** Permissions to grant, added as a ReCap resource and rendered at the end of the statement */
+  capabilities?: Capabilities;
+}
+
+export class SignInInputError extends Error {
+  readonly field: keyof SignInInputOptions;
+
+  constructor(message: string, field: keyof SignInInputOptions) {
+    super(`Invalid ${field}: ${message}`);
+    this.name = 'SignInInputError';
+    this.field = field;
+  }
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_STATEMENT =
+  'Clicking Sign or Approve only means you have proved this wallet is owned by you. This request will not trigger any blockchain transaction or cost any gas fee.';
+
+const DOMAIN = /^[^\s/?#@:]+(:\d{1,5})?$/;
+const BASE58_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const NONCE = /^[a-zA-Z0-9]{8,}$/;
+const ISO_8601 = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+const DURATION = /^(\d+)(ms|s|m|h|d)$/;
+const SINGLE_LINE = /^[^\n]+$/;
+
+const DURATION_UNITS = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Converts a duration to milliseconds
+ * @param   {Duration} duration a duration in milliseconds, or a string such as `10m`
+ * @returns {Number}            the duration in milliseconds, or NaN if it is malformed
+ */
+export const parseDuration = (duration: Duration): number => {
+  if (typeof duration === 'number') return duration;
+
+  const match = DURATION.exec(duration);
+  return match ? Number(match[1]) * DURATION_UNITS[match[2] as keyof typeof DURATION_UNITS] : NaN;
+};
+
+const isUri = (value: string): boolean => {
+  try {
+    new URL(value);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+const toTimestamp = (value: Date | string, field: keyof SignInInputOptions): Date => {
+  if (typeof value === 'string') {
+    if (!ISO_8601.test(value) || isNaN(Date.parse(value))) {
+      throw new SignInInputError(`"${value}" is not an ISO 8601 timestamp`, field);
+    }
+    return new Date(value);
+  }
+  if (isNaN(value.getTime())) throw new SignInInputError('invalid date', field);
+  return value;
+};
+
+// =============================================================================
+// Main Function
+// =============================================================================
+
+/**
+ * Creates a validated sign-in input. Only `domain` and `uri` are required;
+ * `statement`, `version`, `chainId` (the app's cluster) and `issuedAt` have
+ * defaults and every other field is left out unless given. `capabilities` are
+ * granted through a ReCap resource, and rendered at the end of the statement.
+ * @param   {SignInInputOptions} options the fields of the sign-in
+ * @returns {SolanaSignInInput}          the input to pass to the wallet
+ * @throws  {SignInInputError} naming the first invalid option
+ */
+const createSignInInput = (options: SignInInputOptions): SolanaSignInInput => {
+  const {
+    domain,
+    uri,
+    statement = DEFAULT_STATEMENT,
+    address,
+    version = '1',
+    chainId = CLUSTER.chainId,
+    nonce,
+    requestId,
+    resources,
+    capabilities,
+  } = options;
+
+  if (!DOMAIN.test(domain ?? '')) throw new SignInInputError(`"${domain}" is not a host`, 'domain');
+  if (!isUri(uri ?? '')) throw new SignInInputError(`"${uri}" is not an absolute URI`, 'uri');
+  if (statement && !SINGLE_LINE.test(statement)) throw new SignInInputError('must be a single line', 'statement');
+  if (address !== undefined && !BASE58_ADDRESS.test(address)) {
+    throw new SignInInputError(`"${address}" is not a base58 address`, 'address');
+  }
+  if (version !== '1') throw new SignInInputError(`"${version}" is not supported, only "1" is`, 'version');
+  const normalizedChainId = normalizeChainId(chainId);
+  if (!normalizedChainId) throw new SignInInputError(`"${chainId}" is not a Solana cluster`, 'chainId');
+  if (nonce !== undefined && !NONCE.test(nonce)) {
+    throw new SignInInputError('must be at least 8 alphanumeric characters', 'nonce');
+  }
+  if (requestId !== undefined && !SINGLE_LINE.test(requestId)) {
+    throw new SignInInputError('must be a single line', 'requestId');
+  }
+  const invalidResource = resources?.find((resource) => !isUri(resource) || !SINGLE_LINE.test(resource));
+  if (invalidResource !== undefined) {
+    throw new SignInInputError(`"${invalidResource}" is not an absolute URI`, 'resources');
+  }
+
+  if (capabilities !== undefined && !isCapabilities(capabilities)) {
+    throw new SignInInputError('must map service URIs to permissions such as "read:profile"', 'capabilities');
+  }
+
+  const issuedAt = toTimestamp(options.issuedAt ?? new Date(), 'issuedAt');
+
+  if (options.expirationTime !== undefined && options.expiresIn !== undefined) {
+    throw new SignInInputError('cannot be combined with expirationTime', 'expiresIn');
+  }
+  let expirationTime: Date | undefined;
+  if (options.expiresIn !== undefined) {
+    const expiresIn = parseDuration(options.expiresIn);
+    if (!(expiresIn > 0)) throw new SignInInputError(`"${options.expiresIn}" is not a positive duration`, 'expiresIn');
+    expirationTime = new Date(issuedAt.getTime() + expiresIn);
+  } else if (options.expirationTime !== undefined) {
+    expirationTime = toTimestamp(options.expirationTime, 'expirationTime');
+    if (expirationTime <= issuedAt) throw new SignInInputError('must be after issuedAt', 'expirationTime');
+  }
+
+  const notBefore = options.notBefore !== undefined ? toTimestamp(options.notBefore, 'notBefore') : undefined;
+  if (notBefore && expirationTime && notBefore >= expirationTime) {
+    throw new SignInInputError('must be before the expiration time', 'notBefore');
+  }
+
+  // The ReCap is what grants the capabilities, the statement shows the user what it grants
+  const signedStatement = capabilities ? appendRecapStatement(statement, capabilities) : statement;
+  const signedResources = capabilities ? [...(resources ?? []), createRecapResource(capabilities)] : resources;
+
+  return {
+    domain,
+    ...(address && { address }),
+    ...(signedStatement && { statement: signedStatement }),
+    uri,
+    version,
+    chainId: normalizedChainId,
+    ...(nonce && { nonce }),
+    issuedAt: issuedAt.toISOString(),
+    ...(expirationTime && { expirationTime: expirationTime.toISOString() }),
+    ...(notBefore && { notBefore: notBefore.toISOString() }),
+    ...(requestId && { requestId }),
+    ...(signedResources && { resources: signedResources }),
+  };
+};
+
+export default createSignInInput;
@@ -0,0 +1,131 @@
+import { SolanaSignInInput, SolanaSignInOutput } from '@solana/wallet-standard-features';
+import { verifyMessageSignature } from '@solana/wallet-standard-util';
+
+import { SignInCheck, SignInCheckName, SignInReport } from '../types';
+import { normalizeChainId } from './cluster';
+import { SignInMessage, parseSignInMessage } from './signInMessage';
+
+const MAX_CLOCK_SKEW = 5 * 60 * 1000; // five minutes
+
+export interface SignInReportOptions {
+  /** Host the sign-in is expected for, usually `window.location.host` */
+  domain: string;
+  /** Chain id of the connected cluster, e.g. `solana:devnet` */
+  chainId: string;
+  /** When given, the URI must also match this scheme and port, usually `window.location.origin` */
+  origin?: string;
+  /** Point in time to check the timestamps against, defaults to now */
+  now?: Date;
+  /** How far `issuedAt` may be from `now`, in milliseconds */
+  maxClockSkew?: number;
+}
+
+const check = (name: SignInCheckName, passed: boolean, message: string): SignInCheck => ({ name, passed, message });
+
+const sameValue = (name: SignInCheckName, expected?: string, actual?: string): SignInCheck => {
+  return expected === actual
+    ? check(name, true, actual === undefined ? 'Not requested' : `Matches ${actual}`)
+    : check(name, false, `Expected ${expected ?? 'none'}, got ${actual ?? 'none'}`);
+};
+
+const parseUri = (uri: string): URL | undefined => {
+  try {
+    return new URL(uri);
+  } catch (error) {
+    return undefined;
+  }
+};
+
+/**
+ * Runs every sign-in check and reports each outcome, rather than a single
+ * yes/no like `verifySignIn`, so it is clear why a sign-in was rejected
+ * @param   {SolanaSignInInput}   input   the input passed to the wallet
+ * @param   {SolanaSignInOutput}  output  the output returned by the wallet
+ * @param   {SignInReportOptions} options what the sign-in is checked against
+ * @returns {SignInReport}                the outcome of every check
+ */
+const createSignInReport = (
+  input: SolanaSignInInput,
+  output: SolanaSignInOutput,
+  options: SignInReportOptions
+): SignInReport => {
+  const { domain, chainId, origin, now = new Date(), maxClockSkew = MAX_CLOCK_SKEW } = options;
+  const { account, signedMessage, signature } = output;
+
+  let message: SignInMessage;
+  try {
+    message = parseSignInMessage(signedMessage);
+  } catch (error) {
+    return { verified: false, checks: [check('message', false, error.message)] };
+  }
+
+  const checks: SignInCheck[] = [check('message', true, 'Well-formed')];
+
+  const validSignature = verifyMessageSignature({
+    message: signedMessage,
+    signedMessage,
+    signature,
+    publicKey: account.publicKey as Uint8Array,
+  });
+  checks.push(check('signature', validSignature, validSignature ? 'Valid ed25519 signature' : 'Invalid signature'));
+
+  if (message.address !== account.address) {
+    checks.push(check('address', false, `Signed for ${message.address}, but signed by ${account.address}`));
+  } else {
+    checks.push(sameValue('address', input.address ?? account.address, message.address));
+  }
+
+  checks.push(sameValue('domain', domain, message.domain));
+
+  const uriCheck = sameValue('uri', input.uri, message.uri);
+  if (uriCheck.passed && message.uri && parseUri(message.uri)?.host !== domain) {
+    checks.push(check('uri', false, `${message.uri} is not on ${domain}`));
+  } else if (uriCheck.passed && message.uri && origin && parseUri(message.uri).origin !== origin) {
+    checks.push(check('uri', false, `${message.uri} is not on ${origin}`));
+  } else {
+    checks.push(uriCheck);
+  }
+
+  checks.push(sameValue('statement', input.statement, message.statement));
+  const chainIdCheck = sameValue('chainId', input.chainId, message.chainId);
+  if (chainIdCheck.passed && normalizeChainId(message.chainId ?? '') !== normalizeChainId(chainId)) {
+    checks.push(check('chainId', false, `Signed for ${message.chainId ?? 'no chain'}, but connected to ${chainId}`));
+  } else {
+    checks.push(chainIdCheck);
+  }
+  checks.push(sameValue('nonce', input.nonce, message.nonce));
+
+  const issuedAtCheck = sameValue('issuedAt', input.issuedAt, message.issuedAt);
+  if (issuedAtCheck.passed && message.issuedAt) {
+    const skew = Math.abs(now.getTime() - new Date(message.issuedAt).getTime());
+    checks.push(
+      skew <= maxClockSkew
+        ? check('issuedAt', true, `Issued ${Math.round(skew / 1000)}s from now`)
+        : check('issuedAt', false, `Issued ${Math.round(skew / 1000)}s from now, more than ${maxClockSkew / 1000}s`)
+    );
+  } else {
+    checks.push(issuedAtCheck);
+  }
+
+  const expirationCheck = sameValue('expirationTime', input.expirationTime, message.expirationTime);
+  if (expirationCheck.passed && message.expirationTime) {
+    const expired = new Date(message.expirationTime) <= now;
+    checks.push(check('expirationTime', !expired, expired ? `Expired at ${message.expirationTime}` : 'Not expired'));
+  } else {
+    checks.push(expirationCheck);
+  }
+
+  const notBeforeCheck = sameValue('notBefore', input.notBefore, message.notBefore);
+  if (notBeforeCheck.passed && message.notBefore) {
+    const early = new Date(message.notBefore) > now;
+    checks.push(check('notBefore', !early, early ? `Not valid before ${message.notBefore}` : 'Valid now'));
+  } else {
+    checks.push(notBeforeCheck);
+  }
+
+  checks.push(sameValue('resources', input.resources?.join(', '), message.resources?.join(', ')));
+
+  return { verified: checks.every(({ passed }) => passed), checks };
+};
+
+export default createSignInReport;
@@ -0,0 +1,35 @@
+import { Buffer } from 'buffer';
+import { PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js';
+import { SolanaSignInInput } from '@solana/wallet-standard-features';
+
+import { createSignInMessageText } from './signInMessage';
+
+/** SPL Memo program (v2), which requires every key of its instruction to sign */
+export const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+/** A blockhash no block ever has, so a signed sign-in transaction can never be sent and charge its fee payer */
+export const SIGN_IN_TRANSACTION_BLOCKHASH = PublicKey.default.toBase58();
+
+/**
+ * Creates a transaction whose only instruction is a memo carrying the sign-in message, for wallets
+ * (e.g. Ledger) that cannot sign messages. It moves no funds and is only signed, never sent: its
+ * blockhash is a dummy one, so the network would reject it.
+ * @param   {SolanaSignInInput} input     the input from the sign-in server
+ * @param   {PublicKey}         publicKey the connected account, which signs as the fee payer
+ * @returns {Transaction}                 a transaction
+ */
+const createSignInTransaction = (input: SolanaSignInInput, publicKey: PublicKey): Transaction => {
+  const domain = input.domain ?? window.location.host;
+  const message = createSignInMessageText({ ...input, domain, address: publicKey.toBase58() });
+
+  // Without keys, the memo needs no signature but the fee payer's
+  const transaction = new Transaction().add(
+    new TransactionInstruction({ programId: MEMO_PROGRAM_ID, keys: [], data: Buffer.from(message, 'utf8') })
+  );
+  transaction.feePayer = publicKey;
+  transaction.recentBlockhash = SIGN_IN_TRANSACTION_BLOCKHASH;
+
+  return transaction;
+};
+
+export default createSignInTransaction;
@@ -1,10 +1,13 @@
 import { Transaction, SystemProgram, Connection, PublicKey } from '@solana/web3.js';
 
+import { withRpcError } from './errors';
+
 /**
  * Creates an arbitrary transfer transaction
  * @param   {String}      publicKey  a public key
  * @param   {Connection}  connection an RPC connection
  * @returns {Transaction}            a transaction
+ * @throws  {RpcError} when the RPC fails
  */
 const createTransferTransaction = async (publicKey: PublicKey, connection: Connection): Promise<Transaction> => {
   const transaction = new Transaction().add(
@@ -16,8 +19,10 @@ const createTransferTransaction = async (publicKey: PublicKey, connection: Conne
   );
   transaction.feePayer = publicKey;
 
-  const anyTransaction: any = transaction;
-  anyTransaction.recentBlockhash = (await connection.getLatestBlockhash()).blockhash;
+  const { blockhash, lastValidBlockHeight } = await withRpcError('getLatestBlockhash', connection.getLatestBlockhash());
+  transaction.recentBlockhash = blockhash;
+  // Lets confirmation tracking tell when the transaction can no longer land
+  transaction.lastValidBlockHeight = lastValidBlockHeight;
 
   return transaction;
 };
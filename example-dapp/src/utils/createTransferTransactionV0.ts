@@ -1,10 +1,13 @@
 import { TransactionMessage, VersionedTransaction, SystemProgram, Connection, PublicKey } from '@solana/web3.js';
 
+import { withRpcError } from './errors';
+
 /**
  * Creates an arbitrary transfer transactionV0 (Versioned Transaction)
  * @param   {String}      publicKey  a public key
  * @param   {Connection}  connection an RPC connection
  * @returns {VersionedTransaction}            a transactionV0
+ * @throws  {RpcError} when the RPC fails
  */
 const createTransferTransactionV0 = async (
   publicKey: PublicKey,
@@ -12,10 +15,13 @@ const createTransferTransactionV0 = async (
 ): Promise<VersionedTransaction> => {
   // connect to the cluster and get the minimum rent for rent exempt status
   // perform this step to get an "arbitrary" amount to transfer
-  let minRent = await connection.getMinimumBalanceForRentExemption(0);
+  let minRent = await withRpcError(
+    'getMinimumBalanceForRentExemption',
+    connection.getMinimumBalanceForRentExemption(0)
+  );
 
   // get latest `blockhash`
-  let blockhash = await connection.getLatestBlockhash().then((res) => res.blockhash);
+  let { blockhash } = await withRpcError('getLatestBlockhash', connection.getLatestBlockhash());
 
   // create an array with your desired `instructions`
   // in this case, just a transfer instruction
@@ -0,0 +1,74 @@
+import { SolanaSignInInput } from '@solana/wallet-standard-features';
+
+import { SIWS_SERVER_URL } from '../constants';
+import { DelegatedVerification, HttpRequest, Session, SignedDelegatedRequest } from '../types';
+import { Duration } from './createSignInInput';
+
+/**
+ * Fetches a sign-in input whose resources delegate to a session key. Once the wallet signs it in and the
+ * server verifies it, the session key may sign the actions of the scope until the delegation expires.
+ * @param   {String}            sessionKey base58 public key of the session key
+ * @param   {String[]}          scope      actions the session key may sign, e.g. `sign-message`
+ * @param   {Duration}          expiresIn  how long the session key may act, capped by the server
+ * @returns {SolanaSignInInput}            the input to pass to the wallet
+ */
+export const createDelegationSignInData = async (
+  sessionKey: string,
+  scope: string[],
+  expiresIn?: Duration
+): Promise<SolanaSignInInput> => {
+  const response = await fetch(`${SIWS_SERVER_URL}/api/delegation/signin`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sessionKey, scope, expiresIn }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch delegation sign-in data (${response.status})`);
+  }
+
+  const signInData: SolanaSignInInput = await response.json();
+  return signInData;
+};
+
+/**
+ * Creates the request verifying a request signed by a session key with the sign-in server
+ * @param   {SignedDelegatedRequest} request the signed request
+ * @returns {HttpRequest}                    the request, e.g. to log it
+ */
+export const createVerifyDelegatedRequest = (request: SignedDelegatedRequest): HttpRequest => ({
+  url: `${SIWS_SERVER_URL}/api/delegation/verify`,
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify({ request }),
+});
+
+/**
+ * Sends a request signed by a session key to the sign-in server, which walks the delegation back to the wallet
+ * @param   {SignedDelegatedRequest} request the signed request
+ * @returns {DelegatedVerification}          the verification result
+ */
+export const verifyDelegatedRequestWithServer = async (
+  request: SignedDelegatedRequest
+): Promise<DelegatedVerification> => {
+  const { url, method, headers, body } = createVerifyDelegatedRequest(request);
+  const response = await fetch(url, { method, headers, body });
+
+  const verification: DelegatedVerification = await response.json();
+  return verification;
+};
+
+/**
+ * Revokes a session key before its delegation expires, so the server no longer accepts its requests
+ * @param {Session} session    the session of the wallet that delegated to the session key
+ * @param {String}  sessionKey base58 public key of the session key
+ */
+export const revokeDelegation = async (session: Session, sessionKey: string): Promise<void> => {
+  const response = await fetch(`${SIWS_SERVER_URL}/api/delegation/revoke`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${session.token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sessionKey }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to revoke session key (${response.status})`);
+  }
+};
@@ -0,0 +1,128 @@
+import bs58 from 'bs58';
+import { ed25519 } from '@noble/curves/ed25519';
+
+import { DelegatedAction, Delegation, SerializedSignInOutput, SignedDelegatedRequest } from '../types';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+/** An ed25519 keypair generated in the browser, that signs in place of the wallet once delegated to */
+export interface SessionKey {
+  publicKey: string;
+  secretKey: Uint8Array;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const DELEGATION_RESOURCE_PREFIX = 'urn:siws:delegation:';
+
+const SCOPE = /^[a-z][a-z0-9:-]*$/;
+
+// =============================================================================
+// Resources
+// =============================================================================
+
+/**
+ * Encodes a delegation as a sign-in resource, e.g. `urn:siws:delegation:<key>?scope=sign-message&exp=<time>`
+ * @param   {Delegation} delegation the session key, scope and expiration time
+ * @returns {String}                the resource URI
+ */
+export const createDelegationResource = ({ sessionKey, scope, expirationTime }: Delegation): string => {
+  const params = new URLSearchParams({ scope: scope.join(' '), exp: expirationTime });
+  return `${DELEGATION_RESOURCE_PREFIX}${sessionKey}?${params}`;
+};
+
+/**
+ * Decodes a delegation resource
+ * @param   {String}     resource a sign-in resource
+ * @returns {Delegation}          the delegation, or null if the resource is not a valid one
+ */
+export const parseDelegationResource = (resource: string): Delegation | null => {
+  if (!resource.startsWith(DELEGATION_RESOURCE_PREFIX)) return null;
+
+  const [sessionKey, query = ''] = resource.slice(DELEGATION_RESOURCE_PREFIX.length).split('?');
+  const params = new URLSearchParams(query);
+  const scope = (params.get('scope') ?? '').split(' ').filter(Boolean);
+  const expirationTime = params.get('exp') ?? '';
+
+  if (!isSessionKey(sessionKey) || !scope.length || !scope.every((action) => SCOPE.test(action))) return null;
+  if (Number.isNaN(Date.parse(expirationTime))) return null;
+  return { sessionKey, scope, expirationTime };
+};
+
+/**
+ * Finds the delegation among the resources of a sign-in
+ * @param   {String[]}   resources the resources of a sign-in input or message
+ * @returns {Delegation}           the first delegation, or null if there is none
+ */
+export const findDelegation = (resources: readonly string[] = []): Delegation | null => {
+  for (const resource of resources) {
+    const delegation = parseDelegationResource(resource);
+    if (delegation) return delegation;
+  }
+  return null;
+};
+
+/**
+ * Checks that a value is a base58 ed25519 public key
+ * @param   {Any}     value the value to check
+ * @returns {Boolean}       whether it is a string that decodes to 32 bytes
+ */
+export const isSessionKey = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    return bs58.decode(value).length === 32;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Checks that a scope only names actions, e.g. `sign-message` or `transfer:sol`
+ * @param   {String[]} scope the actions
+ * @returns {Boolean}        whether it is a non-empty list of valid action names
+ */
+export const isDelegationScope = (scope: unknown): scope is string[] => {
+  return Array.isArray(scope) && scope.length > 0 && scope.every((action) => SCOPE.test(action));
+};
+
+// =============================================================================
+// Session Keys
+// =============================================================================
+
+/**
+ * Generates a session key; it is only ever kept in memory
+ * @returns {SessionKey} the keypair
+ */
+export const createSessionKey = (): SessionKey => {
+  const secretKey = ed25519.utils.randomPrivateKey();
+  return { publicKey: bs58.encode(ed25519.getPublicKey(secretKey)), secretKey };
+};
+
+/**
+ * Signs an action with a session key, without a wallet popup
+ * @param   {SessionKey}             sessionKey the delegated session key
+ * @param   {SerializedSignInOutput} delegation the wallet's sign-in that delegated to the session key
+ * @param   {String}                 action     the action, one of the delegation's scope
+ * @param   {Any}                    payload    data of the action, serializable as JSON
+ * @returns {SignedDelegatedRequest}            the request to send to the server
+ */
+export const signDelegatedRequest = (
+  sessionKey: SessionKey,
+  delegation: SerializedSignInOutput,
+  action: string,
+  payload?: unknown
+): SignedDelegatedRequest => {
+  const requestId = bs58.encode(crypto.getRandomValues(new Uint8Array(16)));
+  const delegatedAction: DelegatedAction = { action, payload, issuedAt: new Date().toISOString(), requestId };
+  const request = new TextEncoder().encode(JSON.stringify(delegatedAction));
+
+  return {
+    delegation,
+    request: bs58.encode(request),
+    signature: bs58.encode(ed25519.sign(request, sessionKey.secretKey)),
+  };
+};
@@ -0,0 +1,58 @@
+/**
+ * @jest-environment node
+ */
+import {
+  getErrorCode,
+  isUserRejection,
+  RpcError,
+  TimeoutError,
+  toWalletError,
+  UserRejectedError,
+  WalletNotConnectedError,
+} from './errors';
+
+/** An error as the wallet adapter throws it, keeping the wallet's error in `error` */
+const adapterError = (name: string, error?: unknown) => Object.assign(new Error('Adapter error'), { name, error });
+
+describe('getErrorCode', () => {
+  it('finds the code of a wrapped error', () => {
+    expect(getErrorCode(adapterError('WalletSignMessageError', { code: 4001 }))).toBe(4001);
+    expect(getErrorCode(new RpcError('Failed', { cause: { code: -32603 } }))).toBe(-32603);
+  });
+
+  it('ignores codes that are not numbers, and values that are not objects', () => {
+    expect(getErrorCode({ code: 'ECONNRESET' })).toBeUndefined();
+    expect(getErrorCode('Failed')).toBeUndefined();
+  });
+
+  it('stops at a cycle', () => {
+    const error: { cause?: unknown } = {};
+    error.cause = error;
+
+    expect(getErrorCode(error)).toBeUndefined();
+  });
+});
+
+describe('isUserRejection', () => {
+  it('recognizes the rejection code and message', () => {
+    expect(isUserRejection(adapterError('WalletSignTransactionError', { code: 4001 }))).toBe(true);
+    expect(isUserRejection(new Error('User rejected the request.'))).toBe(true);
+    expect(isUserRejection(new Error('Blockhash not found'))).toBe(false);
+  });
+});
+
+describe('toWalletError', () => {
+  it('classifies what wallets throw', () => {
+    expect(toWalletError({ code: 4001 })).toBeInstanceOf(UserRejectedError);
+    expect(toWalletError(adapterError('WalletNotConnectedError'))).toBeInstanceOf(WalletNotConnectedError);
+    expect(toWalletError(adapterError('WalletTimeoutError'))).toBeInstanceOf(TimeoutError);
+    expect(toWalletError(Object.assign(new Error('Internal error'), { code: -32603 }))).toBeInstanceOf(RpcError);
+  });
+
+  it('keeps an unrecognized error as is', () => {
+    const error = new Error('Unknown');
+
+    expect(toWalletError(error)).toBe(error);
+    expect(toWalletError('Unknown')).toEqual(new Error('Unknown'));
+  });
+});
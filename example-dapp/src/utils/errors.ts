@@ -0,0 +1,232 @@
+import { SignInCheckName, TLogError, WalletFeature } from '../types';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+export interface AppErrorOptions {
+  /** What was caught, e.g. the wallet's own error */
+  cause?: unknown;
+  /** The wallet or RPC error code, e.g. 4001 or -32603; read from the cause when omitted */
+  code?: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Code wallets attach to a request the user declined, after EIP-1193 */
+const USER_REJECTED_CODE = 4001;
+
+/** JSON-RPC 2.0 reserves -32768 to -32000 for errors of the RPC itself */
+const JSON_RPC_CODES = { min: -32768, max: -32000 };
+
+const USER_REJECTED_MESSAGE = /user (rejected|denied|declined|cancell?ed)/i;
+
+const FEATURE_DESCRIPTIONS: Record<WalletFeature, string> = {
+  sendTransaction: 'sending transactions',
+  signTransaction: 'signing transactions',
+  signAllTransactions: 'signing multiple transactions',
+  signMessage: 'signing messages',
+  signIn: 'signing in',
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Fields an error may carry, none of which can be trusted to have the expected type */
+type ErrorFields = { [field in 'code' | 'name' | 'message' | 'cause' | 'error']?: unknown };
+
+/**
+ * Walks an error and the errors it wraps: the wallet adapter keeps the wallet's error in `error`,
+ * the app's errors keep theirs in `cause`
+ */
+const unwrap = (error: unknown): ErrorFields[] => {
+  const chain: ErrorFields[] = [];
+  let current = error;
+  while (current && typeof current === 'object') {
+    const fields: ErrorFields = current;
+    if (chain.includes(fields)) break;
+    chain.push(fields);
+    current = fields.cause ?? fields.error;
+  }
+  return chain;
+};
+
+/**
+ * Finds the numeric error code of an error or of any error it wraps
+ * @param   {unknown} error anything a wallet or the RPC threw
+ * @returns {Number}        the code, or undefined if there is none
+ */
+export const getErrorCode = (error: unknown): number | undefined => {
+  return unwrap(error)
+    .map(({ code }) => code)
+    .find((code): code is number => typeof code === 'number');
+};
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * Base of the app's errors. They keep what was caught as `cause`, along with its error code,
+ * and tell whether trying the same request again may succeed.
+ */
+export abstract class AppError extends Error {
+  readonly cause: unknown;
+  readonly code?: number;
+  abstract readonly retryable: boolean;
+
+  constructor(message: string, { cause, code = getErrorCode(cause) }: AppErrorOptions = {}) {
+    super(message);
+    this.name = 'AppError';
+    this.cause = cause;
+    this.code = code;
+  }
+}
+
+export class UserRejectedError extends AppError {
+  readonly retryable = false;
+
+  constructor(message = 'The user rejected the request', options: AppErrorOptions = {}) {
+    super(message, { code: USER_REJECTED_CODE, ...options });
+    this.name = 'UserRejectedError';
+  }
+}
+
+export class WalletNotConnectedError extends AppError {
+  readonly retryable = false;
+
+  constructor(message = 'The wallet is not connected', options?: AppErrorOptions) {
+    super(message, options);
+    this.name = 'WalletNotConnectedError';
+  }
+}
+
+export class FeatureNotSupportedError extends AppError {
+  readonly retryable = false;
+  readonly feature: WalletFeature;
+
+  constructor(feature: WalletFeature, message = `The wallet does not support ${FEATURE_DESCRIPTIONS[feature]}`) {
+    super(message);
+    this.name = 'FeatureNotSupportedError';
+    this.feature = feature;
+  }
+}
+
+export class SignInVerificationError extends AppError {
+  readonly retryable = false;
+  /** Checks that failed, when the sign-in was verified locally */
+  readonly failedChecks: SignInCheckName[];
+
+  constructor(
+    message = 'Sign In verification failed!',
+    failedChecks: SignInCheckName[] = [],
+    options?: AppErrorOptions
+  ) {
+    super(message, options);
+    this.name = 'SignInVerificationError';
+    this.failedChecks = failedChecks;
+  }
+}
+
+export class RpcError extends AppError {
+  readonly retryable = true;
+  /** The RPC method that failed, e.g. `getLatestBlockhash` */
+  readonly method?: string;
+
+  constructor(message: string, options: AppErrorOptions & { method?: string } = {}) {
+    super(message, options);
+    this.name = 'RpcError';
+    this.method = options.method;
+  }
+}
+
+export class TimeoutError extends AppError {
+  readonly retryable = true;
+  /** How long was waited, in milliseconds */
+  readonly timeout?: number;
+
+  constructor(message: string, options: AppErrorOptions & { timeout?: number } = {}) {
+    super(message, options);
+    this.name = 'TimeoutError';
+    this.timeout = options.timeout;
+  }
+}
+
+// =============================================================================
+// Main Functions
+// =============================================================================
+
+/**
+ * Tells whether a wallet error means the user declined the request
+ * @param   {unknown} error anything a wallet threw
+ * @returns {Boolean}       whether it is a user rejection
+ */
+export const isUserRejection = (error: unknown): boolean => {
+  return unwrap(error).some(
+    (current) =>
+      current instanceof UserRejectedError ||
+      current.code === USER_REJECTED_CODE ||
+      (typeof current.message === 'string' && USER_REJECTED_MESSAGE.test(current.message))
+  );
+};
+
+/**
+ * Classifies what a wallet threw, so callers can tell with `instanceof` whether to retry
+ * @param   {unknown} error anything a wallet threw
+ * @returns {Error}         an `AppError` when the failure is recognized, otherwise the error itself
+ */
+export const toWalletError = (error: unknown): Error => {
+  if (error instanceof AppError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const code = getErrorCode(error);
+  const names = unwrap(error).map(({ name }) => name);
+
+  if (isUserRejection(error)) return new UserRejectedError(undefined, { cause: error });
+  if (names.includes('WalletNotConnectedError')) return new WalletNotConnectedError(undefined, { cause: error });
+  if (names.includes('WalletTimeoutError')) {
+    return new TimeoutError(message || 'The wallet timed out', { cause: error });
+  }
+  if (code !== undefined && code >= JSON_RPC_CODES.min && code <= JSON_RPC_CODES.max) {
+    return new RpcError(message, { cause: error });
+  }
+  return error instanceof Error ? error : new Error(message);
+};
+
+/**
+ * Wraps the failure of an RPC request in an `RpcError`
+ * @param   {String}  method  the RPC method, for the message
+ * @param   {Promise} request the pending request
+ * @returns {Promise}         the request's result
+ * @throws  {RpcError} when the request fails
+ */
+export const withRpcError = async <T>(method: string, request: Promise<T>): Promise<T> => {
+  try {
+    return await request;
+  } catch (error) {
+    throw new RpcError(`RPC ${method} failed: ${error.message}`, { cause: error, method });
+  }
+};
+
+/**
+ * Summarizes an error for the log console; `AppError`s keep their code, retryability and details
+ * @param   {unknown}   error anything caught
+ * @returns {TLogError}       a JSON-serializable summary
+ */
+export const describeError = (error: unknown): TLogError => {
+  if (!(error instanceof Error)) return { name: 'Error', message: String(error) };
+
+  const cause = error instanceof AppError && error.cause instanceof Error ? error.cause.message : undefined;
+  return {
+    name: error.name,
+    message: error.message,
+    code: error instanceof AppError ? error.code : getErrorCode(error),
+    retryable: error instanceof AppError ? error.retryable : undefined,
+    cause: cause && cause !== error.message ? cause : undefined,
+    failedChecks:
+      error instanceof SignInVerificationError && error.failedChecks.length ? error.failedChecks : undefined,
+  };
+};
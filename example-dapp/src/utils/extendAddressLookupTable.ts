@@ -7,16 +7,18 @@ import {
   VersionedTransaction,
 } from '@solana/web3.js';
 
-import { signAndSendTransaction } from '.';
+import { WalletCapabilities } from '../types';
+import { signAndSendTransaction, withRpcError } from '.';
 
 /**
  * 1. Extends (add addresses) the table
  * 2. Signs and sends the extension instruction
  * 
- * @param   {String}      publicKey  a public key
- * @param   {Connection}  connection an RPC connection
- * @param   {String}  publicKey recent blockhash
- * @param   {String} publicKey  address of the lookup table
+ * @param   {PublicKey}   publicKey          a public key
+ * @param   {Connection}  connection         an RPC connection
+ * @param   {String}      blockhash          recent blockhash
+ * @param   {PublicKey}   lookupTableAddress address of the lookup table
+ * @param   {Function}    sendTx             the wallet adapter's `sendTransaction`
  * @returns {String} signature of confirmed transaction
  */
 const extendAddressLookupTable = async (
@@ -24,7 +26,7 @@ const extendAddressLookupTable = async (
   connection: Connection,
   blockhash: string,
   lookupTableAddress: PublicKey,
-  sendTx,
+  sendTx: WalletCapabilities['sendTransaction'],
 ): Promise<string> => {
 
   // add addresses to the `lookupTableAddress` table via an `extend` instruction
@@ -52,7 +54,9 @@ const extendAddressLookupTable = async (
 
   // Confirm transaction: we will have to wait for the transaction to fetch the
   // lookup table account before proceeding: takes around 3-5 seconds to fetch.
-  const status = (await connection.confirmTransaction(extensionSignature)).value;
+  const status = (
+    await withRpcError('confirmTransaction', connection.confirmTransaction(extensionSignature))
+  ).value;
   if (status.err) {
     throw new Error(`Transaction ${extensionSignature} failed (${JSON.stringify(status)})`);
   }
@@ -1,13 +1,106 @@
+export { default as authorize, evaluateRule } from './authorize';
+export type {
+  AuthorizationConfig,
+  AuthorizationConnection,
+  AuthorizationResult,
+  AuthorizationRule,
+  RuleResult,
+} from './authorize';
+export {
+  appendRecapStatement,
+  checkRecapStatement,
+  createRecapResource,
+  createRecapStatement,
+  findCapabilities,
+  hasCapability,
+  isCapabilities,
+  parseRecapResource,
+  RECAP_RESOURCE_PREFIX,
+} from './capabilities';
+export type { Recap } from './capabilities';
+export { CLUSTER, getClusterConfig, getExplorerLink, normalizeChainId, parseCluster, requireCluster } from './cluster';
+export type { Cluster, ClusterConfig, SolanaChainId } from './cluster';
 export { default as createAddressLookupTable } from './createAddressLookupTable';
 export { createSignInData, createSignInErrorData } from './createSignInData';
+export { default as createSignInInput, parseDuration, SignInInputError } from './createSignInInput';
+export type { Duration, SignInInputOptions } from './createSignInInput';
+export { default as createSignInReport } from './createSignInReport';
+export type { SignInReportOptions } from './createSignInReport';
+export { default as createSignInTransaction, MEMO_PROGRAM_ID } from './createSignInTransaction';
+export {
+  createDelegationSignInData,
+  createVerifyDelegatedRequest,
+  revokeDelegation,
+  verifyDelegatedRequestWithServer,
+} from './delegateWithServer';
+export {
+  createDelegationResource,
+  createSessionKey,
+  DELEGATION_RESOURCE_PREFIX,
+  findDelegation,
+  isDelegationScope,
+  isSessionKey,
+  parseDelegationResource,
+  signDelegatedRequest,
+} from './delegation';
+export type { SessionKey } from './delegation';
 export { default as createTransferTransaction } from './createTransferTransaction';
 export { default as createTransferTransactionV0 } from './createTransferTransactionV0';
+export {
+  AppError,
+  describeError,
+  FeatureNotSupportedError,
+  getErrorCode,
+  isUserRejection,
+  RpcError,
+  SignInVerificationError,
+  TimeoutError,
+  toWalletError,
+  UserRejectedError,
+  WalletNotConnectedError,
+  withRpcError,
+} from './errors';
+export type { AppErrorOptions } from './errors';
 export { default as extendAddressLookupTable } from './extendAddressLookupTable';
 export { default as hexToRGB } from './hexToRGB';
-export { default as pollSignatureStatus } from './pollSignatureStatus';
+export { default as inspectSignIn } from './inspectSignIn';
+export type { SignInFieldChange, SignInFieldInspection, SignInInspection } from './inspectSignIn';
+export { createCurlCommand, formatLogs, toLoggable } from './logs';
+export type { LogExportFormat } from './logs';
+export { default as refreshSession } from './refreshSession';
+export { default as revokeSession } from './revokeSession';
 export { default as signAllTransactions } from './signAllTransactions';
 export { default as signAndSendTransaction } from './signAndSendTransaction';
 export { default as signAndSendTransactionV0WithLookupTable } from './signAndSendTransactionV0WithLookupTable';
 export { default as signMessage } from './signMessage';
 export { default as signIn } from './signIn';
+export { SIGN_IN_ERROR_CASES, runSignInErrorCase } from './signInErrorCases';
+export type { SignInErrorCase, SignInErrorCaseResult } from './signInErrorCases';
+export {
+  createSignInMessage,
+  createSignInMessageText,
+  parseSignInMessage,
+  parseSignInMessageText,
+  compareSignInMessage,
+  SignInMessageParseError,
+  SIGN_IN_MESSAGE_FIELDS,
+} from './signInMessage';
+export type { SignInMessage, SignInMessageField, SignInMessageMismatch } from './signInMessage';
 export { default as signTransaction } from './signTransaction';
+export { default as runCompatibilityCheck, COMPATIBILITY_CASES, createCompatibilityInput } from './walletCompatibility';
+export type {
+  CompatibilityCase,
+  CompatibilityCaseResult,
+  CompatibilityReport,
+  CompatibilityRunnerOptions,
+} from './walletCompatibility';
+export { serializeSignInOutput, deserializeSignInOutput } from './serializeSignInOutput';
+export { default as trackConfirmation, trackConfirmations, ConfirmationAbortedError } from './trackConfirmation';
+export type { ConfirmationOptions, ConfirmationResult } from './trackConfirmation';
+export { default as verifySignInWithServer, createVerifySignInRequest } from './verifySignInWithServer';
+export {
+  default as verifySignInTransactionWithServer,
+  createVerifySignInTransactionRequest,
+} from './verifySignInTransactionWithServer';
+export { default as verifySignedMessage, encodeBytes, encodeSignedMessage } from './verifySignedMessage';
+export type { EncodedSignedMessage } from './verifySignedMessage';
@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+import { ed25519 } from '@noble/curves/ed25519';
+import { SolanaSignInInput, SolanaSignInOutput } from '@solana/wallet-standard-features';
+import bs58 from 'bs58';
+
+import inspectSignIn from './inspectSignIn';
+import { createSignInMessage, SignInMessage } from './signInMessage';
+
+const SECRET_KEY = new Uint8Array(32).fill(1);
+const PUBLIC_KEY = ed25519.getPublicKey(SECRET_KEY);
+const ADDRESS = bs58.encode(PUBLIC_KEY);
+
+const INPUT: SolanaSignInInput = {
+  domain: 'localhost:3000',
+  address: ADDRESS,
+  statement: 'Sign in to the example dApp',
+  uri: 'http://localhost:3000',
+  version: '1',
+  nonce: 'a1b2c3d4e5',
+  issuedAt: '2024-01-01T00:00:00.000Z',
+  resources: ['https://example.com'],
+};
+
+/**
+ * Signs a message as the wallet would
+ * @param   {Uint8Array}         signedMessage the bytes the wallet signs
+ * @returns {SolanaSignInOutput}               the output it returns
+ */
+const signOutput = (signedMessage: Uint8Array): SolanaSignInOutput => ({
+  account: { address: ADDRESS, publicKey: PUBLIC_KEY, chains: [], features: [] },
+  signedMessage,
+  signature: ed25519.sign(signedMessage, SECRET_KEY),
+});
+
+describe('inspectSignIn', () => {
+  it('reports every field of a message signed as requested as unchanged', () => {
+    const output = signOutput(createSignInMessage(INPUT as SignInMessage));
+    const inspection = inspectSignIn(INPUT, output);
+    const changes = Object.fromEntries(inspection.fields.map(({ field, change }) => [field, change]));
+
+    expect(changes).toEqual({
+      domain: 'unchanged',
+      address: 'unchanged',
+      statement: 'unchanged',
+      uri: 'unchanged',
+      version: 'unchanged',
+      nonce: 'unchanged',
+      issuedAt: 'unchanged',
+      resources: 'unchanged',
+    });
+    expect(inspection.parseError).toBeUndefined();
+    expect(inspection.signatureValid).toBe(true);
+    expect(inspection.publicKey).toEqual({ base58: ADDRESS, hex: Buffer.from(PUBLIC_KEY).toString('hex') });
+  });
+
+  it('reports the fields a wallet changed, added or dropped', () => {
+    const { nonce, ...withoutNonce } = INPUT as SignInMessage;
+    const tampered = { ...withoutNonce, domain: 'evil.example', chainId: 'solana:mainnet' };
+    const inspection = inspectSignIn(INPUT, signOutput(createSignInMessage(tampered)));
+
+    expect(inspection.fields).toContainEqual({
+      field: 'domain',
+      requested: 'localhost:3000',
+      signed: 'evil.example',
+      change: 'changed',
+    });
+    expect(inspection.fields).toContainEqual({
+      field: 'chainId',
+      requested: undefined,
+      signed: 'solana:mainnet',
+      change: 'added',
+    });
+    expect(inspection.fields).toContainEqual({
+      field: 'nonce',
+      requested: nonce,
+      signed: undefined,
+      change: 'dropped',
+    });
+    expect(inspection.fields.filter(({ change }) => change === 'unchanged').map(({ field }) => field)).toEqual([
+      'address',
+      'statement',
+      'uri',
+      'version',
+      'issuedAt',
+      'resources',
+    ]);
+    expect(inspection.signatureValid).toBe(true);
+  });
+
+  it('reports a signature over other bytes than the message as invalid', () => {
+    const output = signOutput(createSignInMessage(INPUT as SignInMessage));
+    const tampered = {
+      ...output,
+      signedMessage: createSignInMessage({ ...(INPUT as SignInMessage), nonce: 'f6g7h8i9j0' }),
+    };
+    const inspection = inspectSignIn(INPUT, tampered);
+
+    expect(inspection.signatureValid).toBe(false);
+    expect(inspection.fields).toContainEqual(expect.objectContaining({ field: 'nonce', change: 'changed' }));
+  });
+
+  it('reports a message that is not a sign-in message, without fields', () => {
+    const inspection = inspectSignIn(INPUT, signOutput(new TextEncoder().encode('Hello, world')));
+
+    expect(inspection).toMatchObject({
+      text: 'Hello, world',
+      fields: [],
+      parseError: expect.stringMatching(/^Line 1 \(domain\): /),
+      signatureValid: true,
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { SolanaSignInInput, SolanaSignInOutput } from '@solana/wallet-standard-features';
+
+import { SIGN_IN_MESSAGE_FIELDS, SignInMessage, SignInMessageField, parseSignInMessage } from './signInMessage';
+import verifySignedMessage, { encodeBytes } from './verifySignedMessage';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+/** How the wallet treated a requested field */
+export type SignInFieldChange = 'unchanged' | 'added' | 'dropped' | 'changed';
+
+export interface SignInFieldInspection {
+  field: SignInMessageField;
+  /** Value in the input passed to the wallet */
+  requested?: string | readonly string[];
+  /** Value in the message the wallet signed */
+  signed?: string | readonly string[];
+  change: SignInFieldChange;
+}
+
+export interface SignInInspection {
+  /** The signed message, decoded as text */
+  text: string;
+  /** Every field present in the input or the signed message, in message order */
+  fields: SignInFieldInspection[];
+  /** Set when the signed message is not a valid SIWS message, in which case `fields` is empty */
+  parseError?: string;
+  signature: { base58: string; hex: string };
+  publicKey: { base58: string; hex: string };
+  /** True if the signature is valid for the signed message and public key */
+  signatureValid: boolean;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const sameValue = (requested?: string | readonly string[], signed?: string | readonly string[]): boolean => {
+  if (Array.isArray(requested) && Array.isArray(signed)) {
+    return requested.length === signed.length && requested.every((value, i) => value === signed[i]);
+  }
+  return requested === signed;
+};
+
+const inspectField = (field: SignInMessageField, input: SolanaSignInInput, message: SignInMessage) => {
+  const requested = input[field];
+  const signed = message[field];
+
+  let change: SignInFieldChange = 'changed';
+  if (sameValue(requested, signed)) change = 'unchanged';
+  else if (requested === undefined) change = 'added';
+  else if (signed === undefined) change = 'dropped';
+
+  return { field, requested, signed, change };
+};
+
+// =============================================================================
+// Main Function
+// =============================================================================
+
+/**
+ * Breaks a sign-in down into what was requested and what was actually signed, field by field
+ * @param   {SolanaSignInInput}  input  the input passed to the wallet
+ * @param   {SolanaSignInOutput} output the output returned by the wallet
+ * @returns {SignInInspection}          the signed fields next to the requested ones, the signature and the key
+ */
+const inspectSignIn = (input: SolanaSignInInput, output: SolanaSignInOutput): SignInInspection => {
+  const publicKey = new Uint8Array(output.account.publicKey);
+  const inspection: SignInInspection = {
+    text: new TextDecoder().decode(output.signedMessage),
+    fields: [],
+    signature: { base58: encodeBytes(output.signature, 'base58'), hex: encodeBytes(output.signature, 'hex') },
+    publicKey: { base58: encodeBytes(publicKey, 'base58'), hex: encodeBytes(publicKey, 'hex') },
+    signatureValid: verifySignedMessage(output.signedMessage, output.signature, publicKey),
+  };
+
+  let message: SignInMessage;
+  try {
+    message = parseSignInMessage(output.signedMessage);
+  } catch (error) {
+    return { ...inspection, parseError: error.message };
+  }
+
+  const fields = SIGN_IN_MESSAGE_FIELDS.filter((field) => input[field] !== undefined || message[field] !== undefined);
+  return { ...inspection, fields: fields.map((field) => inspectField(field, input, message)) };
+};
+
+export default inspectSignIn;
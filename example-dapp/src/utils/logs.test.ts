@@ -0,0 +1,59 @@
+/**
+ * @jest-environment node
+ */
+import { HttpRequest, TLogEntry } from '../types';
+import { createCurlCommand, formatLogs, toLoggable } from './logs';
+
+describe('toLoggable', () => {
+  it('encodes byte arrays as base58', () => {
+    expect(toLoggable({ signature: new Uint8Array([0, 1, 2]) })).toEqual({ signature: '15T' });
+  });
+
+  it('encodes buffers, which serialize themselves as JSON first, as base58', () => {
+    expect(toLoggable({ publicKey: Buffer.from([0, 1, 2]) })).toEqual({ publicKey: '15T' });
+    expect(toLoggable({ type: 'Buffer', data: 'not bytes' })).toEqual({ type: 'Buffer', data: 'not bytes' });
+  });
+
+  it('redacts session tokens', () => {
+    const session = { address: 'address', chainId: 'solana:devnet', token: 'header.claims.signature', expiresAt: 1 };
+
+    expect(toLoggable({ verified: true, session })).toEqual({
+      verified: true,
+      session: { ...session, token: '[redacted]' },
+    });
+  });
+});
+
+describe('formatLogs', () => {
+  const logs: TLogEntry[] = [
+    { id: 'log-1', timestamp: 0, status: 'success', message: 'Signed in', payload: toLoggable({ token: 'secret' }) },
+    { id: 'log-2', timestamp: 1000, status: 'info', message: 'Switched' },
+  ];
+
+  it('exports entries with an ISO time, without session tokens', () => {
+    const [entry] = JSON.parse(formatLogs(logs, 'json'));
+
+    expect(entry).toMatchObject({ time: '1970-01-01T00:00:00.000Z', payload: { token: '[redacted]' } });
+  });
+
+  it('exports one entry per line as ndjson', () => {
+    const lines = formatLogs(logs, 'ndjson').trim().split('\n');
+
+    expect(lines.map((line) => JSON.parse(line).id)).toEqual(['log-1', 'log-2']);
+  });
+});
+
+describe('createCurlCommand', () => {
+  it('quotes the URL, headers and body', () => {
+    const request: HttpRequest = {
+      method: 'POST',
+      url: '/api/verify',
+      headers: { 'Content-Type': 'application/json' },
+      body: "{'a'}",
+    };
+
+    expect(createCurlCommand(request, 'http://localhost:3000')).toBe(
+      `curl -X POST 'http://localhost:3000/api/verify' -H 'Content-Type: application/json' --data-raw '{'\\''a'\\''}'`
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import bs58 from 'bs58';
+
+import { HttpRequest, TLogEntry } from '../types';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+export type LogExportFormat = 'json' | 'ndjson';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+// Fields holding credentials, which must not end up in displayed or exported logs
+const SECRET_FIELDS = ['token'];
+const REDACTED = '[redacted]';
+
+const isSerializedBuffer = (value: unknown): value is { type: 'Buffer'; data: number[] } => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { type, data } = value as Record<string, unknown>;
+  return type === 'Buffer' && Array.isArray(data);
+};
+
+const quote = (value: string): string => `'${value.replace(/'/g, `'\\''`)}'`;
+
+// =============================================================================
+// Main Functions
+// =============================================================================
+
+/**
+ * Converts a value to plain JSON data, so it can be displayed and exported as is.
+ * Byte arrays become base58 strings, which is how Solana tooling shows keys and signatures,
+ * and credentials such as session tokens are redacted.
+ * @param   {Any} value e.g. a `SolanaSignInOutput`
+ * @returns {Any}       the value as plain JSON data
+ */
+export const toLoggable = (value: unknown): unknown => {
+  if (value === undefined) return undefined;
+
+  const json = JSON.stringify(value, (key, field) => {
+    if (SECRET_FIELDS.includes(key) && typeof field === 'string') return REDACTED;
+    if (field instanceof Uint8Array) return bs58.encode(field);
+    if (isSerializedBuffer(field)) return bs58.encode(Uint8Array.from(field.data));
+    if (typeof field === 'bigint') return field.toString();
+    return field;
+  });
+  return json === undefined ? undefined : JSON.parse(json);
+};
+
+/**
+ * Formats log entries for export
+ * @param   {TLogEntry[]}     logs   the entries to export
+ * @param   {LogExportFormat} format `json` for an array, `ndjson` for one entry per line
+ * @returns {String}                 the formatted entries
+ */
+export const formatLogs = (logs: TLogEntry[], format: LogExportFormat): string => {
+  const entries = logs.map((log) => ({ ...log, time: new Date(log.timestamp).toISOString() }));
+  return format === 'json'
+    ? JSON.stringify(entries, null, 2)
+    : entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n';
+};
+
+/**
+ * Creates a curl command reproducing an HTTP request
+ * @param   {HttpRequest} request the request, with a URL relative to `base` or absolute
+ * @param   {String}      base    the origin relative URLs resolve against
+ * @returns {String}              the curl command
+ */
+export const createCurlCommand = (request: HttpRequest, base: string = window.location.origin): string => {
+  const parts = ['curl', '-X', request.method, quote(new URL(request.url, base).toString())];
+  for (const [name, value] of Object.entries(request.headers)) {
+    parts.push('-H', quote(`${name}: ${value}`));
+  }
+  if (request.body !== undefined) parts.push('--data-raw', quote(request.body));
+
+  return parts.join(' ');
+};
@@ -0,0 +1,23 @@
+import { SIWS_SERVER_URL } from '../constants';
+import { Session } from '../types';
+
+/**
+ * Exchanges a session for a new one with a later expiry
+ * @param   {Session} session the current session
+ * @returns {Session}         the new session, or null if the current one is no longer valid
+ */
+const refreshSession = async (session: Session): Promise<Session | null> => {
+  const response = await fetch(`${SIWS_SERVER_URL}/api/session/refresh`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${session.token}` },
+  });
+  if (response.status === 401) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to refresh session (${response.status})`);
+  }
+
+  const refreshed: Session = await response.json();
+  return refreshed;
+};
+
+export default refreshSession;
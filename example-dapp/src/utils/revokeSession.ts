@@ -0,0 +1,18 @@
+import { SIWS_SERVER_URL } from '../constants';
+import { Session } from '../types';
+
+/**
+ * Revokes a session so its token is no longer accepted
+ * @param {Session} session the session to revoke
+ */
+const revokeSession = async (session: Session): Promise<void> => {
+  const response = await fetch(`${SIWS_SERVER_URL}/api/session/logout`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${session.token}` },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to revoke session (${response.status})`);
+  }
+};
+
+export default revokeSession;
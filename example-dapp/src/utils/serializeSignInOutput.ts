@@ -0,0 +1,38 @@
+import bs58 from 'bs58';
+import { SolanaSignInOutput } from '@solana/wallet-standard-features';
+
+import { SerializedSignInOutput } from '../types';
+
+/**
+ * Encodes a sign-in output so it can be posted to the verification backend
+ * @param   {SolanaSignInOutput}     output the output returned by the wallet
+ * @returns {SerializedSignInOutput}        the output with base58-encoded bytes
+ */
+export const serializeSignInOutput = (output: SolanaSignInOutput): SerializedSignInOutput => {
+  return {
+    account: {
+      address: output.account.address,
+      publicKey: bs58.encode(new Uint8Array(output.account.publicKey)),
+    },
+    signedMessage: bs58.encode(output.signedMessage),
+    signature: bs58.encode(output.signature),
+  };
+};
+
+/**
+ * Decodes a sign-in output received by the verification backend
+ * @param   {SerializedSignInOutput} serialized the output with base58-encoded bytes
+ * @returns {SolanaSignInOutput}                the output as returned by the wallet
+ */
+export const deserializeSignInOutput = (serialized: SerializedSignInOutput): SolanaSignInOutput => {
+  return {
+    account: {
+      address: serialized.account.address,
+      publicKey: bs58.decode(serialized.account.publicKey),
+      chains: [],
+      features: [],
+    },
+    signedMessage: bs58.decode(serialized.signedMessage),
+    signature: bs58.decode(serialized.signature),
+  };
+};
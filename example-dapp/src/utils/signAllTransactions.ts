@@ -1,23 +1,29 @@
 import { Transaction, VersionedTransaction } from '@solana/web3.js';
 
+import { WalletCapabilities } from '../types';
+import { FeatureNotSupportedError, toWalletError } from './errors';
+
 /**
  * Signs an array of transactions
- * @param   {PhantomProvider} provider     a Phantom provider
  * @param   {Transaction | VersionedTransaction}     transaction1 a transaction to sign
  * @param   {Transaction | VersionedTransaction}     transaction2 a transaction to sign
- * @returns {(Transaction | VersionedTransaction)[]}                an array of signed transactions
+ * @param   {Function}                               signAllTx    the wallet adapter's `signAllTransactions`
+ * @returns {(Transaction | VersionedTransaction)[]}              an array of signed transactions
+ * @throws  {FeatureNotSupportedError} when the wallet cannot sign multiple transactions
+ * @throws  {UserRejectedError}        when the user declines
  */
-const signAllTransactions = async (
-  transaction1: Transaction | VersionedTransaction,
-  transaction2: Transaction | VersionedTransaction,
-  signAllTx
-): Promise<(Transaction | VersionedTransaction)[]> => {
+const signAllTransactions = async <T extends Transaction | VersionedTransaction>(
+  transaction1: T,
+  transaction2: T,
+  signAllTx: WalletCapabilities['signAllTransactions']
+): Promise<T[]> => {
+  if (!signAllTx) throw new FeatureNotSupportedError('signAllTransactions');
+
   try {
     const transactions = await signAllTx([transaction1, transaction2]);
     return transactions;
   } catch (error) {
-    console.warn(error);
-    throw new Error(error.message);
+    throw toWalletError(error);
   }
 };
 
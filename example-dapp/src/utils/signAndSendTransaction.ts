@@ -1,22 +1,26 @@
-import { Connection, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { Connection, Transaction, TransactionSignature, VersionedTransaction } from '@solana/web3.js';
+
+import { WalletCapabilities } from '../types';
+import { toWalletError } from './errors';
 
 /**
  * Signs and sends transaction
- * @param   {PhantomProvider} provider    a Phantom Provider
- * @param   {Transaction}     transaction a transaction to sign
- * @returns {Transaction}                 a signed transaction
+ * @param   {Transaction | VersionedTransaction} transaction a transaction to sign
+ * @param   {Connection}                         connection  an RPC connection
+ * @param   {Function}                           sendTx      the wallet adapter's `sendTransaction`
+ * @returns {String}                                         the transaction signature
+ * @throws  {UserRejectedError} when the user declines
  */
 const signAndSendTransaction = async (
   transaction: Transaction | VersionedTransaction,
   connection: Connection,
-  sendTx
-): Promise<string> => {
+  sendTx: WalletCapabilities['sendTransaction']
+): Promise<TransactionSignature> => {
   try {
-    const signature = await sendTx(transaction, connection, {skipPreflight: false});
+    const signature = await sendTx(transaction, connection, { skipPreflight: false });
     return signature;
   } catch (error) {
-    console.warn(error);
-    throw new Error(error.message);
+    throw toWalletError(error);
   }
 };
 
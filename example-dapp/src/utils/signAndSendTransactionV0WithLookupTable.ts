@@ -6,38 +6,47 @@ import {
   VersionedTransaction,
 } from '@solana/web3.js';
 
+import { WalletCapabilities } from '../types';
 import {
   signAndSendTransaction,
+  withRpcError,
 } from '.';
 
 /**
  * Creates an arbitrary transfer transactionV0 (Versioned Transaction),
  * uses the Address Lookup Table to fetch the accounts,
  * signs this transaction and sends it.
- * @param   {String}      publicKey  a public key
- * @param   {Connection}  connection an RPC connection
- * @param   {String}  publicKey recent blockhash
- * @param   {String} publicKey  address of the lookup table
- * @returns {VersionedTransaction}   a transactionV0
+ * @param   {PublicKey}   publicKey          a public key
+ * @param   {Connection}  connection         an RPC connection
+ * @param   {String}      blockhash          recent blockhash
+ * @param   {PublicKey}   lookupTableAddress address of the lookup table
+ * @param   {Function}    sendTx             the wallet adapter's `sendTransaction`
+ * @returns {String}                         the transaction signature
  */
 const signAndSendTransactionV0WithLookupTable = async (
   publicKey: PublicKey,
   connection: Connection,
   blockhash: string,
   lookupTableAddress: PublicKey,
-  sendTx
+  sendTx: WalletCapabilities['sendTransaction']
 ): Promise<string> => {
 
   // connect to the cluster and get the minimum rent for rent exempt status
   // perform this step to get an "arbitrary" amount to transfer
-  let minRent = await connection.getMinimumBalanceForRentExemption(0);
+  let minRent = await withRpcError(
+    'getMinimumBalanceForRentExemption',
+    connection.getMinimumBalanceForRentExemption(0)
+  );
 
   // similar to requesting another account (or PDA) from the cluster,
   // you can fetch a complete Address Lookup Table with
   // the getAddressLookupTable method
 
   // get the table from the cluster
-  const lookupTableAccount = await connection.getAddressLookupTable(lookupTableAddress).then((res) => res.value);
+  const lookupTableAccount = await withRpcError(
+    'getAddressLookupTable',
+    connection.getAddressLookupTable(lookupTableAddress)
+  ).then((res) => res.value);
   // `lookupTableAccount` will now be a `AddressLookupTableAccount` object
   console.log('Table address from cluster:', lookupTableAccount.key.toBase58());
 
@@ -1,18 +1,27 @@
-import { SolanaSignInInput, SolanaSignInOutput } from "@solana/wallet-standard-features";
+import { SolanaSignInInput, SolanaSignInOutput } from '@solana/wallet-standard-features';
+
+import { WalletCapabilities } from '../types';
+import { FeatureNotSupportedError, toWalletError } from './errors';
 
 /**
- * Signs a message
- * @param   {PhantomProvider} provider a Phantom Provider
- * @param   {String}          message  a message to sign
- * @returns {Any}                      TODO(get type)
+ * Signs in with the wallet
+ * @param   {SolanaSignInInput}  signInData   what to sign in with
+ * @param   {Function}           signInMethod the wallet adapter's `signIn`
+ * @returns {SolanaSignInOutput}              the account, signed message and signature
+ * @throws  {FeatureNotSupportedError} when the wallet cannot sign in
+ * @throws  {UserRejectedError}        when the user declines
  */
-const signIn = async (signInData: SolanaSignInInput, signInMethod): Promise<SolanaSignInOutput> => {
+const signIn = async (
+  signInData: SolanaSignInInput,
+  signInMethod: WalletCapabilities['signIn']
+): Promise<SolanaSignInOutput> => {
+  if (!signInMethod) throw new FeatureNotSupportedError('signIn');
+
   try {
     const { account, signedMessage, signature } = await signInMethod(signInData);
     return { account, signedMessage, signature };
   } catch (error) {
-    console.warn(error);
-    throw new Error(error.message);
+    throw toWalletError(error);
   }
 };
 
@@ -0,0 +1,80 @@
+/**
+ * @jest-environment node
+ */
+import { SolanaSignInInput, SolanaSignInOutput } from '@solana/wallet-standard-features';
+
+import { SignInConfig } from '../../server/config';
+import { issueSignInInput, verifySignInOutput } from '../../server/signIn';
+import { MemoryStore, NonceStore } from '../../server/stores';
+import { MockWallet, MockWalletBehavior } from '../mocks/MockWallet';
+import { SignInReportOptions } from './createSignInReport';
+import { serializeSignInOutput } from './serializeSignInOutput';
+import { runSignInErrorCase, SIGN_IN_ERROR_CASES } from './signInErrorCases';
+
+const config: SignInConfig = {
+  domain: 'localhost:3000',
+  uri: 'http://localhost:3000',
+  chainId: 'solana:devnet',
+  resources: [],
+  nonceTtl: 5 * 60 * 1000,
+  maxNonceAge: 5 * 60 * 1000,
+  maxDelegationTtl: 60 * 60 * 1000,
+  maxRequestAge: 60 * 1000,
+};
+
+const expected: SignInReportOptions = { domain: config.domain, origin: config.uri, chainId: config.chainId };
+
+const mockSignIn = (behavior: MockWalletBehavior = 'approve') => {
+  const wallet = new MockWallet({ behavior });
+  return async (input: SolanaSignInInput): Promise<SolanaSignInOutput> => {
+    const [output] = await wallet.features['solana:signIn'].signIn(input);
+    return output;
+  };
+};
+
+describe('runSignInErrorCase', () => {
+  let store: NonceStore;
+  const verify = (output: SolanaSignInOutput) => verifySignInOutput(store, serializeSignInOutput(output));
+
+  beforeEach(() => {
+    store = new MemoryStore();
+  });
+
+  it.each(SIGN_IN_ERROR_CASES.map((errorCase) => [errorCase.id, errorCase]))(
+    'rejects %s in the report and the server verifier',
+    async (id, errorCase) => {
+      const input = errorCase.createInput(await issueSignInInput(store, config), expected);
+      const result = await runSignInErrorCase(errorCase, input, mockSignIn(), expected, verify);
+
+      expect(result.walletError).toBeUndefined();
+      expect(result.missedFailures).toEqual([]);
+      expect(result.verification).toMatchObject({ verified: false });
+      expect(result.rejected).toBe(true);
+    }
+  );
+
+  it('counts a user rejection as rejected by the wallet', async () => {
+    const [errorCase] = SIGN_IN_ERROR_CASES;
+    const input = errorCase.createInput(await issueSignInInput(store, config), expected);
+    const result = await runSignInErrorCase(errorCase, input, mockSignIn('reject'), expected, verify);
+
+    expect(result.rejected).toBe(true);
+    expect(result.walletError?.message).toBe('User rejected the request.');
+  });
+
+  it('throws any other failure to sign rather than counting it as a rejection', async () => {
+    const [errorCase] = SIGN_IN_ERROR_CASES;
+    const signIn = () => Promise.reject(new TypeError('Failed to fetch'));
+
+    await expect(runSignInErrorCase(errorCase, {}, signIn, expected, verify)).rejects.toThrow('Failed to fetch');
+  });
+
+  it('does not count a case the server verified as rejected', async () => {
+    const errorCase = SIGN_IN_ERROR_CASES.find(({ id }) => id === 'tampered-signature');
+    const input = await issueSignInInput(store, config);
+    const result = await runSignInErrorCase(errorCase, input, mockSignIn(), expected, async () => ({ verified: true }));
+
+    expect(result.missedFailures).toEqual([]);
+    expect(result.rejected).toBe(false);
+  });
+});
@@ -0,0 +1,223 @@
+import { SolanaSignInInput, SolanaSignInOutput } from '@solana/wallet-standard-features';
+
+import { SignInCheckName, SignInReport, SignInVerification } from '../types';
+import { normalizeChainId } from './cluster';
+import createSignInReport, { SignInReportOptions } from './createSignInReport';
+import { isUserRejection } from './errors';
+import { createSignInMessageText, parseSignInMessage } from './signInMessage';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+export interface SignInErrorCase {
+  id: string;
+  name: string;
+  description: string;
+  /**
+   * Turns a legitimate input into the adversarial one passed to the wallet
+   * @param {SolanaSignInInput}   input    a legitimate input from the sign-in server
+   * @param {SignInReportOptions} expected what the verifier checks against
+   */
+  createInput: (input: SolanaSignInInput, expected: SignInReportOptions) => SolanaSignInInput;
+  /** Tampers with the wallet's output before it reaches the verifier */
+  tamperOutput?: (output: SolanaSignInOutput) => SolanaSignInOutput;
+  /** Checks the verifier must fail for the case to be rejected */
+  expectedFailures: SignInCheckName[];
+}
+
+export interface SignInErrorCaseResult {
+  /**
+   * True if the user or wallet declined to sign, or if the report failed every expected check
+   * and the server verifier rejected the output
+   */
+  rejected: boolean;
+  /** Set when the user or wallet declined to sign */
+  walletError?: Error;
+  /** The output the verifier received, after any tampering */
+  output?: SolanaSignInOutput;
+  report?: SignInReport;
+  /** What the server verifier answered */
+  verification?: SignInVerification;
+  /** Expected checks the report passed anyway */
+  missedFailures: SignInCheckName[];
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const MINUTE = 60 * 1000;
+
+/** Cyrillic letters that render like their Latin counterparts */
+const HOMOGLYPHS: Record<string, string> = { a: 'а', e: 'е', o: 'о', c: 'с', p: 'р' };
+
+const withHost = (expected: SignInReportOptions, host: string, protocol?: string) => {
+  const url = new URL(expected.origin ?? `https://${expected.domain}`);
+  url.host = host;
+  if (protocol) url.protocol = protocol;
+  // The URL parser encodes internationalized hosts as punycode
+  return { domain: url.host, uri: url.origin };
+};
+
+const replaceHostname = (domain: string, hostname: string) => {
+  const [, port] = domain.split(':');
+  return port ? `${hostname}:${port}` : hostname;
+};
+
+const shiftedTime = (offset: number) => new Date(Date.now() + offset).toISOString();
+
+const withoutTimes = ({ expirationTime, notBefore, ...input }: SolanaSignInInput): SolanaSignInInput => input;
+
+// =============================================================================
+// Cases
+// =============================================================================
+
+export const SIGN_IN_ERROR_CASES: SignInErrorCase[] = [
+  {
+    id: 'domain-mismatch',
+    name: 'Domain mismatch',
+    description: 'A phishing site requests a sign-in for its own domain and URI',
+    createInput: (input) => ({ ...input, domain: 'phishing.com', uri: 'https://www.phishing.com' }),
+    expectedFailures: ['domain', 'uri'],
+  },
+  {
+    id: 'subdomain-lookalike',
+    name: 'Subdomain lookalike',
+    description: 'The expected host is used as a subdomain of an attacker domain',
+    createInput: (input, expected) => {
+      const [hostname] = expected.domain.split(':');
+      return { ...input, ...withHost(expected, replaceHostname(expected.domain, `${hostname}.secure-login.io`)) };
+    },
+    expectedFailures: ['domain', 'uri'],
+  },
+  {
+    id: 'punycode-homograph',
+    name: 'Punycode homograph',
+    description: 'A Latin letter of the host is swapped for a Cyrillic lookalike',
+    createInput: (input, expected) => {
+      const [hostname] = expected.domain.split(':');
+      const homograph = hostname.replace(/[aeocp]/, (letter) => HOMOGLYPHS[letter]);
+      const lookalike = homograph === hostname ? `${HOMOGLYPHS.e}${hostname}` : homograph;
+      return { ...input, ...withHost(expected, replaceHostname(expected.domain, lookalike)) };
+    },
+    expectedFailures: ['domain', 'uri'],
+  },
+  {
+    id: 'port-mismatch',
+    name: 'Port mismatch',
+    description: 'The expected host is served on a different port',
+    createInput: (input, expected) => {
+      const [hostname, port] = expected.domain.split(':');
+      return { ...input, ...withHost(expected, `${hostname}:${port === '8443' ? '8444' : '8443'}`) };
+    },
+    expectedFailures: ['domain', 'uri'],
+  },
+  {
+    id: 'scheme-downgrade',
+    name: 'Scheme downgrade',
+    description: 'The URI is served over http instead of https (or the other way around on an http origin)',
+    createInput: (input, expected) => {
+      const protocol = new URL(expected.origin ?? `https://${expected.domain}`).protocol;
+      return { ...input, uri: withHost(expected, expected.domain, protocol === 'https:' ? 'http:' : 'https:').uri };
+    },
+    expectedFailures: ['uri'],
+  },
+  {
+    id: 'expired',
+    name: 'Expired message',
+    description: 'The message expired a minute ago',
+    createInput: (input) => ({
+      ...withoutTimes(input),
+      issuedAt: shiftedTime(-2 * MINUTE),
+      expirationTime: shiftedTime(-MINUTE),
+    }),
+    expectedFailures: ['expirationTime'],
+  },
+  {
+    id: 'future-not-before',
+    name: 'Future notBefore',
+    description: 'The message only becomes valid in an hour',
+    createInput: (input) => ({ ...withoutTimes(input), notBefore: shiftedTime(60 * MINUTE) }),
+    expectedFailures: ['notBefore'],
+  },
+  {
+    id: 'wrong-chain',
+    name: 'Wrong chain',
+    description: 'The message is for a different cluster than the connected one',
+    createInput: (input, expected) => ({
+      ...input,
+      chainId: normalizeChainId(expected.chainId) === 'solana:mainnet' ? 'solana:devnet' : 'solana:mainnet',
+    }),
+    expectedFailures: ['chainId'],
+  },
+  {
+    id: 'tampered-statement',
+    name: 'Tampered statement',
+    description: 'The statement is rewritten after the wallet signed the message',
+    createInput: (input) => input,
+    tamperOutput: (output) => {
+      const message = parseSignInMessage(output.signedMessage);
+      const tampered = createSignInMessageText({ ...message, statement: 'Approve transferring all of your assets.' });
+      return { ...output, signedMessage: new TextEncoder().encode(tampered) };
+    },
+    expectedFailures: ['signature', 'statement'],
+  },
+  {
+    id: 'tampered-signature',
+    name: 'Tampered signature',
+    description: 'One byte of the signature is flipped after signing',
+    createInput: (input) => input,
+    tamperOutput: (output) => {
+      const signature = new Uint8Array(output.signature);
+      signature[0] ^= 0xff;
+      return { ...output, signature };
+    },
+    expectedFailures: ['signature'],
+  },
+];
+
+// =============================================================================
+// Runner
+// =============================================================================
+
+/**
+ * Signs in with an adversarial input and checks that it is rejected. Only the user or wallet declining
+ * counts as a rejection by the wallet; any other failure, e.g. of the network, is thrown rather than
+ * mistaken for one.
+ * @param   {SignInErrorCase}       errorCase the case to run
+ * @param   {SolanaSignInInput}     input     the adversarial input, see `createSignInErrorData`
+ * @param   {Function}              signIn    signs in with the wallet
+ * @param   {SignInReportOptions}   expected  what the report checks against
+ * @param   {Function}              verify    verifies the output with the server, e.g. `verifySignInWithServer`
+ * @returns {SignInErrorCaseResult}           whether the case was rejected, and by whom
+ */
+export const runSignInErrorCase = async (
+  errorCase: SignInErrorCase,
+  input: SolanaSignInInput,
+  signIn: (input: SolanaSignInInput) => Promise<SolanaSignInOutput>,
+  expected: SignInReportOptions,
+  verify: (output: SolanaSignInOutput) => Promise<SignInVerification>
+): Promise<SignInErrorCaseResult> => {
+  let output: SolanaSignInOutput;
+  try {
+    output = await signIn(input);
+  } catch (error) {
+    if (!isUserRejection(error)) throw error;
+    return { rejected: true, walletError: error, missedFailures: [] };
+  }
+  if (errorCase.tamperOutput) output = errorCase.tamperOutput(output);
+
+  const report = createSignInReport(input, output, expected);
+  const failed = report.checks.filter(({ passed }) => !passed).map(({ name }) => name);
+  const missedFailures = errorCase.expectedFailures.filter((name) => !failed.includes(name));
+  const verification = await verify(output);
+
+  return {
+    rejected: !report.verified && missedFailures.length === 0 && !verification.verified,
+    output,
+    report,
+    verification,
+    missedFailures,
+  };
+};
@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ */
+import { createSignInMessage as createReferenceMessage } from '@solana/wallet-standard-util';
+
+import {
+  createSignInMessage,
+  createSignInMessageText,
+  parseSignInMessage,
+  parseSignInMessageText,
+  SignInMessage,
+  SignInMessageParseError,
+} from './signInMessage';
+
+const ADDRESS = '4Nd1mBQtrMJVYVfKf2PJy9NZUZdTAsp7D4xWLs4gDB4T';
+
+const HEADER = `localhost:3000 wants you to sign in with your Solana account:\n${ADDRESS}`;
+
+const FULL_MESSAGE: SignInMessage = {
+  domain: 'localhost:3000',
+  address: ADDRESS,
+  statement: 'Sign in to the example dApp',
+  uri: 'http://localhost:3000',
+  version: '1',
+  chainId: 'solana:devnet',
+  nonce: 'a1b2c3d4e5',
+  issuedAt: '2024-01-01T00:00:00.000Z',
+  expirationTime: '2024-01-01T00:05:00.000Z',
+  notBefore: '2024-01-01T00:00:00.000Z',
+  requestId: 'request-1',
+  resources: ['https://example.com', 'https://phantom.app/'],
+};
+
+/**
+ * Parses a message expected to be rejected
+ * @param   {String[]}                lines the lines of the message after the header and address
+ * @returns {SignInMessageParseError}       the error thrown
+ */
+const parseError = (lines: string[]): SignInMessageParseError => {
+  try {
+    parseSignInMessageText([HEADER, ...lines].join('\n'));
+  } catch (error) {
+    if (error instanceof SignInMessageParseError) return error;
+    throw error;
+  }
+  throw new Error('The message was parsed');
+};
+
+describe('createSignInMessage', () => {
+  it.each([
+    ['every field', FULL_MESSAGE],
+    ['no statement', { ...FULL_MESSAGE, statement: undefined }],
+    ['no fields but domain and address', { domain: 'localhost:3000', address: ADDRESS }],
+    ['empty resources', { ...FULL_MESSAGE, resources: [] }],
+  ])('builds the same bytes as the wallet-standard for %s', (_, input: SignInMessage) => {
+    expect(createSignInMessage(input)).toEqual(createReferenceMessage(input));
+  });
+});
+
+describe('parseSignInMessage', () => {
+  it('reads back every field of a built message', () => {
+    expect(parseSignInMessage(createSignInMessage(FULL_MESSAGE))).toEqual(FULL_MESSAGE);
+  });
+
+  it('reads back a message without a statement, tolerating trailing newlines', () => {
+    const input = { ...FULL_MESSAGE, statement: undefined };
+
+    expect(parseSignInMessageText(`${createSignInMessageText(input)}\n\n`)).toEqual(input);
+  });
+
+  it.each([
+    ['fields out of order', ['', 'URI: http://localhost:3000', 'Chain ID: solana:devnet', 'Version: 1'], 6, 'version'],
+    ['a duplicate field', ['', 'Nonce: a1b2c3d4e5', 'Nonce: f6g7h8i9j0'], 5, 'nonce'],
+    ['a multi-line statement', ['', 'Sign in to', 'the example dApp', '', 'Version: 1'], 5, 'statement'],
+    ['a malformed issued at', ['', 'Issued At: yesterday'], 4, 'issuedAt'],
+    ['a malformed expiration time', ['', 'Version: 1', 'Expiration Time: 2024-13-45T99:00:00Z'], 5, 'expirationTime'],
+  ])('names the line and field of %s', (_, lines, line, field) => {
+    const error = parseError(lines);
+
+    expect(error.line).toBe(line);
+    expect(error.field).toBe(field);
+    expect(error.message).toMatch(new RegExp(`^Line ${line} \\(${field}\\): `));
+  });
+
+  it('names the address line of a malformed address', () => {
+    expect(() =>
+      parseSignInMessageText('localhost:3000 wants you to sign in with your Solana account:\n0x1234')
+    ).toThrow(new SignInMessageParseError('"0x1234" is not a base58 address', 2, 'address'));
+  });
+});
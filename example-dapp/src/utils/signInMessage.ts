@@ -0,0 +1,250 @@
+import { SolanaSignInInput } from '@solana/wallet-standard-features';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+export type SignInMessageField = keyof SolanaSignInInput;
+
+/**
+ * The fields of a SIWS message. Domain and address are always present in the text,
+ * every other field only when it was part of the input.
+ */
+export type SignInMessage = SolanaSignInInput & Required<Pick<SolanaSignInInput, 'domain' | 'address'>>;
+
+export class SignInMessageParseError extends Error {
+  /** 1-based line of the message text the error was found on */
+  readonly line: number;
+  readonly field: SignInMessageField;
+
+  constructor(message: string, line: number, field: SignInMessageField) {
+    super(`Line ${line} (${field}): ${message}`);
+    this.name = 'SignInMessageParseError';
+    this.line = line;
+    this.field = field;
+  }
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const HEADER_SUFFIX = ' wants you to sign in with your Solana account:';
+
+const BASE58_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+const RESOURCE_PREFIX = '- ';
+
+/** Labelled fields, in the order they must appear in the message */
+const LABELS: [SignInMessageField, string][] = [
+  ['uri', 'URI'],
+  ['version', 'Version'],
+  ['chainId', 'Chain ID'],
+  ['nonce', 'Nonce'],
+  ['issuedAt', 'Issued At'],
+  ['expirationTime', 'Expiration Time'],
+  ['notBefore', 'Not Before'],
+  ['requestId', 'Request ID'],
+  ['resources', 'Resources'],
+];
+
+const TIMESTAMP_FIELDS: SignInMessageField[] = ['issuedAt', 'expirationTime', 'notBefore'];
+
+// =============================================================================
+// Builder
+// =============================================================================
+
+/**
+ * Builds the exact text a wallet signs for a sign-in input, following the
+ * wallet-standard format:
+ *
+ *   ${domain} wants you to sign in with your Solana account:
+ *   ${address}
+ *
+ *   ${statement}
+ *
+ *   URI: ${uri}
+ *   Version: ${version}
+ *   Chain ID: ${chainId}
+ *   Nonce: ${nonce}
+ *   Issued At: ${issuedAt}
+ *   Expiration Time: ${expirationTime}
+ *   Not Before: ${notBefore}
+ *   Request ID: ${requestId}
+ *   Resources:
+ *   - ${resources[0]}
+ *   - ${resources[n]}
+ *
+ * @param   {SignInMessage} input a sign-in input with domain and address
+ * @returns {String}              the message text
+ */
+export const createSignInMessageText = (input: SignInMessage): string => {
+  let message = `${input.domain}${HEADER_SUFFIX}\n${input.address}`;
+
+  if (input.statement) {
+    message += `\n\n${input.statement}`;
+  }
+
+  const fields: string[] = [];
+  for (const [field, label] of LABELS) {
+    if (field === 'resources') {
+      if (input.resources) {
+        fields.push(`${label}:`, ...input.resources.map((resource) => `${RESOURCE_PREFIX}${resource}`));
+      }
+    } else if (input[field]) {
+      fields.push(`${label}: ${input[field]}`);
+    }
+  }
+  if (fields.length) {
+    message += `\n\n${fields.join('\n')}`;
+  }
+
+  return message;
+};
+
+/**
+ * Builds the exact bytes a wallet signs for a sign-in input
+ * @param   {SignInMessage} input a sign-in input with domain and address
+ * @returns {Uint8Array}          the UTF-8 encoded message text
+ */
+export const createSignInMessage = (input: SignInMessage): Uint8Array => {
+  return new TextEncoder().encode(createSignInMessageText(input));
+};
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+const labelOf = (line: string): [SignInMessageField, string] | undefined => {
+  return LABELS.find(([field, label]) => line.startsWith(field === 'resources' ? `${label}:` : `${label}: `));
+};
+
+/**
+ * Parses message text back into its fields
+ * @param   {String}        text the message text, as signed by the wallet
+ * @returns {SignInMessage}      the parsed fields
+ * @throws  {SignInMessageParseError} with the line and field of the first error
+ */
+export const parseSignInMessageText = (text: string): SignInMessage => {
+  // Trailing newlines are tolerated, as they are by the wallet-standard parser
+  const lines = text.replace(/\n+$/, '').split('\n');
+  let index = 0;
+
+  const error = (message: string, field: SignInMessageField) => {
+    return new SignInMessageParseError(message, index + 1, field);
+  };
+
+  // Header
+  const header = lines[index];
+  if (!header.endsWith(HEADER_SUFFIX) || header.length === HEADER_SUFFIX.length) {
+    throw error(`expected "<domain>${HEADER_SUFFIX}"`, 'domain');
+  }
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+  index++;
+
+  if (index >= lines.length) throw error('missing address', 'address');
+  const address = lines[index];
+  if (!BASE58_ADDRESS.test(address)) throw error(`"${address}" is not a base58 address`, 'address');
+  index++;
+
+  const message: { -readonly [K in keyof SignInMessage]: SignInMessage[K] } = { domain, address };
+  if (index >= lines.length) return message;
+
+  // Statement
+  if (lines[index] !== '') throw error('expected an empty line after the address', 'statement');
+  index++;
+  if (index < lines.length && !labelOf(lines[index])) {
+    if (lines[index] === '') throw error('statement must not be empty', 'statement');
+    message.statement = lines[index];
+    index++;
+    if (index >= lines.length) return message;
+    if (lines[index] !== '') throw error('statement must be a single line', 'statement');
+    index++;
+  }
+  if (index >= lines.length) throw error('expected fields after an empty line', 'uri');
+
+  // Fields
+  let lastOrder = -1;
+  while (index < lines.length) {
+    const line = lines[index];
+    const label = labelOf(line);
+    if (!label) throw error(`unexpected line "${line}"`, LABELS[Math.min(lastOrder + 1, LABELS.length - 1)][0]);
+
+    const [field, name] = label;
+    const order = LABELS.indexOf(label);
+    if (order === lastOrder) throw error(`duplicate "${name}"`, field);
+    if (order < lastOrder) throw error(`"${name}" must come before "${LABELS[lastOrder][1]}"`, field);
+    lastOrder = order;
+
+    if (field === 'resources') {
+      if (line !== `${name}:`) throw error(`expected "${name}:" on its own line`, field);
+      index++;
+      const resources: string[] = [];
+      while (index < lines.length && lines[index].startsWith(RESOURCE_PREFIX)) {
+        resources.push(lines[index].slice(RESOURCE_PREFIX.length));
+        index++;
+      }
+      if (index < lines.length) throw error(`expected "${RESOURCE_PREFIX}<resource>"`, field);
+      message.resources = resources;
+      break;
+    }
+
+    const value = line.slice(name.length + 2);
+    if (!value) throw error(`"${name}" must not be empty`, field);
+    if (TIMESTAMP_FIELDS.includes(field) && isNaN(Date.parse(value))) {
+      throw error(`"${value}" is not an ISO 8601 timestamp`, field);
+    }
+    (message as Record<string, unknown>)[field] = value;
+    index++;
+  }
+
+  return message;
+};
+
+/**
+ * Parses signed message bytes back into their fields
+ * @param   {Uint8Array}    signedMessage the bytes signed by the wallet
+ * @returns {SignInMessage}               the parsed fields
+ * @throws  {SignInMessageParseError} with the line and field of the first error
+ */
+export const parseSignInMessage = (signedMessage: Uint8Array): SignInMessage => {
+  return parseSignInMessageText(new TextDecoder().decode(signedMessage));
+};
+
+// =============================================================================
+// Comparison
+// =============================================================================
+
+export interface SignInMessageMismatch {
+  field: SignInMessageField;
+  expected?: string | readonly string[];
+  actual?: string | readonly string[];
+}
+
+/** Every field of a SIWS message, in message order */
+export const SIGN_IN_MESSAGE_FIELDS: SignInMessageField[] = [
+  'domain',
+  'address',
+  'statement',
+  ...LABELS.map(([field]) => field),
+];
+
+/**
+ * Compares the fields of a signed message with the input it was requested with.
+ * Domain and address may be filled in by the wallet when the input omits them,
+ * every other field must be exactly as requested.
+ * @param   {SolanaSignInInput}       input   the input passed to the wallet
+ * @param   {SignInMessage}           message the parsed signed message
+ * @returns {SignInMessageMismatch[]}         the fields that differ, in message order
+ */
+export const compareSignInMessage = (input: SolanaSignInInput, message: SignInMessage): SignInMessageMismatch[] => {
+  return SIGN_IN_MESSAGE_FIELDS.filter((field) => {
+    const expected = input[field];
+    const actual = message[field];
+    if ((field === 'domain' || field === 'address') && expected === undefined) return false;
+    if (Array.isArray(expected) && Array.isArray(actual)) {
+      return expected.length !== actual.length || expected.some((value, i) => value !== actual[i]);
+    }
+    return expected !== actual;
+  }).map((field) => ({ field, expected: input[field], actual: message[field] }));
+};
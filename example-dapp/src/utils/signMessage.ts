@@ -1,17 +1,23 @@
+import { WalletCapabilities } from '../types';
+import { FeatureNotSupportedError, toWalletError } from './errors';
+
 /**
  * Signs a message
- * @param   {PhantomProvider} provider a Phantom Provider
- * @param   {String}          message  a message to sign
- * @returns {Any}                      TODO(get type)
+ * @param   {String}     message a message to sign
+ * @param   {Function}   signMsg the wallet adapter's `signMessage`
+ * @returns {Uint8Array}         the ed25519 signature, see `verifySignedMessage`
+ * @throws  {FeatureNotSupportedError} when the wallet cannot sign messages
+ * @throws  {UserRejectedError}        when the user declines
  */
-const signMessage = async (message: string, signMsg): Promise<string> => {
+const signMessage = async (message: string, signMsg: WalletCapabilities['signMessage']): Promise<Uint8Array> => {
+  if (!signMsg) throw new FeatureNotSupportedError('signMessage');
+
   try {
     const encodedMessage = new TextEncoder().encode(message);
     const signedMessage = await signMsg(encodedMessage);
     return signedMessage;
   } catch (error) {
-    console.warn(error);
-    throw new Error(error.message);
+    throw toWalletError(error);
   }
 };
 
@@ -1,21 +1,27 @@
 import { Transaction, VersionedTransaction } from '@solana/web3.js';
 
+import { WalletCapabilities } from '../types';
+import { FeatureNotSupportedError, toWalletError } from './errors';
+
 /**
  * Signs a transaction
- * @param   {PhantomProvider} provider    a Phantom Provider
- * @param   {Transaction | VersionedTransaction}     transaction a transaction to sign
- * @returns {Transaction | VersionedTransaction}                 a signed transaction
+ * @param   {Transaction | VersionedTransaction} transaction a transaction to sign
+ * @param   {Function}                           signTx      the wallet adapter's `signTransaction`
+ * @returns {Transaction | VersionedTransaction}             the signed transaction, of the same type
+ * @throws  {FeatureNotSupportedError} when the wallet cannot sign transactions
+ * @throws  {UserRejectedError}        when the user declines
  */
-const signTransaction = async (
-  transaction: Transaction | VersionedTransaction,
-  signTx
-): Promise<Transaction | VersionedTransaction> => {
+const signTransaction = async <T extends Transaction | VersionedTransaction>(
+  transaction: T,
+  signTx: WalletCapabilities['signTransaction']
+): Promise<T> => {
+  if (!signTx) throw new FeatureNotSupportedError('signTransaction');
+
   try {
     const signedTransaction = await signTx(transaction);
     return signedTransaction;
   } catch (error) {
-    console.warn(error);
-    throw new Error(error.message);
+    throw toWalletError(error);
   }
 };
 
@@ -0,0 +1,148 @@
+/**
+ * @jest-environment node
+ */
+import { Connection, SignatureResult, SignatureStatus } from '@solana/web3.js';
+
+import trackConfirmation, { ConfirmationAbortedError } from './trackConfirmation';
+
+const SIGNATURE = '5'.repeat(88);
+const SUBSCRIPTION_ID = 7;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** A connection whose websocket and RPC answers each test sets, at a block height of 50 by default */
+const createConnection = () => {
+  const stub = {
+    callback: null as ((result: SignatureResult) => void) | null,
+    status: null as Partial<SignatureStatus> | null,
+    onSignature: jest.fn((_signature: string, callback: (result: SignatureResult) => void) => {
+      stub.callback = callback;
+      return SUBSCRIPTION_ID;
+    }),
+    removeSignatureListener: jest.fn(async (_id: number) => {}),
+    getSignatureStatus: jest.fn(async (_signature: string) => ({ context: { slot: 1 }, value: stub.status })),
+    getLatestBlockhash: jest.fn(async () => ({ blockhash: 'blockhash', lastValidBlockHeight: 100 })),
+    getBlockHeight: jest.fn(async () => 50),
+  };
+  return stub;
+};
+
+type StubConnection = ReturnType<typeof createConnection>;
+
+const track = (stub: StubConnection, options: { lastValidBlockHeight?: number; signal?: AbortSignal } = {}) => {
+  const createLog = jest.fn();
+  const promise = trackConfirmation(SIGNATURE, {
+    connection: stub as unknown as Connection,
+    createLog,
+    cluster: 'devnet',
+    pollingInterval: 1,
+    ...options,
+  });
+  return { promise, createLog };
+};
+
+describe('trackConfirmation', () => {
+  let stub: StubConnection;
+
+  beforeEach(() => {
+    stub = createConnection();
+  });
+
+  it('confirms through the websocket subscription, then unsubscribes', async () => {
+    const { promise, createLog } = track(stub);
+    stub.callback?.({ err: null });
+
+    expect(await promise).toEqual({ signature: SIGNATURE, status: 'confirmed' });
+    expect(stub.onSignature).toHaveBeenCalledWith(SIGNATURE, expect.any(Function), 'confirmed');
+    expect(stub.removeSignatureListener).toHaveBeenCalledWith(SUBSCRIPTION_ID);
+    expect(createLog).toHaveBeenLastCalledWith(
+      expect.objectContaining({ status: 'success', messageTwo: 'Status: Confirmed' })
+    );
+  });
+
+  it('falls back to polling without a websocket, one poll at a time', async () => {
+    stub.onSignature.mockImplementation(() => {
+      throw new Error('No websocket');
+    });
+    const statuses: (Partial<SignatureStatus> | null)[] = [
+      { confirmationStatus: 'processed', err: null },
+      null,
+      { confirmationStatus: 'confirmed', err: null },
+    ];
+    let polling = 0;
+    let overlapping = 0;
+    stub.getSignatureStatus.mockImplementation(async () => {
+      overlapping = Math.max(overlapping, ++polling);
+      await wait(10);
+      polling--;
+      return { context: { slot: 1 }, value: statuses.shift() ?? null };
+    });
+    const { promise, createLog } = track(stub);
+
+    expect(await promise).toEqual({ signature: SIGNATURE, status: 'confirmed' });
+    expect(stub.getSignatureStatus).toHaveBeenCalledTimes(3);
+    expect(overlapping).toBe(1);
+    expect(createLog).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'info', messageTwo: 'Status: Processed' })
+    );
+    expect(stub.removeSignatureListener).not.toHaveBeenCalled();
+  });
+
+  it('reports a transaction expired once the block height passes its last valid one', async () => {
+    stub.getBlockHeight.mockResolvedValue(101);
+    const { promise, createLog } = track(stub, { lastValidBlockHeight: 100 });
+
+    expect(await promise).toEqual({ signature: SIGNATURE, status: 'expired' });
+    expect(stub.getLatestBlockhash).not.toHaveBeenCalled();
+    expect(createLog).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'error' }));
+  });
+
+  it('reads the last valid block height of the latest blockhash when none is given', async () => {
+    stub.getBlockHeight.mockResolvedValueOnce(50).mockResolvedValue(150);
+
+    expect((await track(stub).promise).status).toBe('expired');
+    expect(stub.getLatestBlockhash).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a transaction that landed with an error as failed', async () => {
+    stub.status = { confirmationStatus: 'confirmed', err: { InstructionError: [0, 'InvalidAccountData'] } };
+    const { promise, createLog } = track(stub);
+
+    expect(await promise).toEqual({
+      signature: SIGNATURE,
+      status: 'failed',
+      error: '{"InstructionError":[0,"InvalidAccountData"]}',
+    });
+    expect(createLog).toHaveBeenLastCalledWith(
+      expect.objectContaining({ status: 'error', messageTwo: 'Failed: {"InstructionError":[0,"InvalidAccountData"]}' })
+    );
+  });
+
+  it('stops on abort, removing the subscription and no longer polling', async () => {
+    const controller = new AbortController();
+    const { promise, createLog } = track(stub, { signal: controller.signal });
+    await wait(20);
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(ConfirmationAbortedError);
+    expect(stub.removeSignatureListener).toHaveBeenCalledWith(SUBSCRIPTION_ID);
+    expect(createLog).toHaveBeenLastCalledWith(
+      expect.objectContaining({ status: 'warning', message: `Stopped tracking transaction ${SIGNATURE}` })
+    );
+
+    const polls = stub.getSignatureStatus.mock.calls.length;
+    await wait(20);
+    expect(stub.getSignatureStatus).toHaveBeenCalledTimes(polls);
+  });
+
+  it('rejects at once when the signal was aborted before', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(track(stub, { signal: controller.signal }).promise).rejects.toThrow(
+      `Stopped tracking transaction ${SIGNATURE}`
+    );
+    expect(stub.onSignature).not.toHaveBeenCalled();
+    expect(stub.getSignatureStatus).not.toHaveBeenCalled();
+  });
+});
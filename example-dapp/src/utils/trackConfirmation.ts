@@ -0,0 +1,224 @@
+import { Commitment, Connection, TransactionConfirmationStatus } from '@solana/web3.js';
+
+import { TLog } from '../types';
+import { CLUSTER, Cluster, getExplorerLink } from './cluster';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+export interface ConfirmationOptions {
+  connection: Connection;
+  /** Commitment the transaction must reach, defaults to `confirmed` */
+  commitment?: TransactionConfirmationStatus;
+  /**
+   * Block height after which the transaction's blockhash expires. Defaults to that of the
+   * latest blockhash when tracking starts, an upper bound for any transaction already sent.
+   */
+  lastValidBlockHeight?: number;
+  /** Stops tracking and rejects the promise when aborted */
+  signal?: AbortSignal;
+  /** Receives progress, warnings and the outcome */
+  createLog?: (log: TLog) => void;
+  /** Method the logs are reported under, defaults to `signAndSendTransaction` */
+  method?: TLog['method'];
+  /** Cluster the transaction was sent to, for explorer links */
+  cluster?: Cluster;
+  /** How often to poll when the websocket subscription stays silent, in milliseconds */
+  pollingInterval?: number;
+}
+
+export interface ConfirmationResult {
+  signature: string;
+  /** `failed` if the transaction landed with an error, `expired` if its blockhash expired before it landed */
+  status: 'confirmed' | 'failed' | 'expired';
+  error?: string;
+}
+
+export class ConfirmationAbortedError extends Error {
+  readonly signature: string;
+
+  constructor(signature: string) {
+    super(`Stopped tracking transaction ${signature}`);
+    this.name = 'ConfirmationAbortedError';
+    this.signature = signature;
+  }
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const POLLING_INTERVAL = 2000; // two seconds
+
+const COMMITMENTS: TransactionConfirmationStatus[] = ['processed', 'confirmed', 'finalized'];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const hasReached = (status: TransactionConfirmationStatus, commitment: TransactionConfirmationStatus): boolean => {
+  return COMMITMENTS.indexOf(status) >= COMMITMENTS.indexOf(commitment);
+};
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+// =============================================================================
+// Main Functions
+// =============================================================================
+
+/**
+ * Tracks a transaction until it reaches a commitment, fails or expires. Listens on the
+ * websocket `onSignature` subscription and polls as a fallback, one request at a time.
+ * @param   {String}              signature a transaction signature
+ * @param   {ConfirmationOptions} options   the connection, target commitment, expiry and logging
+ * @returns {ConfirmationResult}            the outcome
+ * @throws  {ConfirmationAbortedError} when the signal is aborted first
+ */
+const trackConfirmation = (signature: string, options: ConfirmationOptions): Promise<ConfirmationResult> => {
+  const {
+    connection,
+    commitment = 'confirmed',
+    signal,
+    createLog = () => {},
+    method = 'signAndSendTransaction',
+    cluster = CLUSTER.cluster,
+    pollingInterval = POLLING_INTERVAL,
+  } = options;
+  const confirmation = { signature, link: getExplorerLink(signature, cluster) };
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let subscriptionId: number | undefined;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    let lastStatus: TransactionConfirmationStatus | undefined;
+    let lastValidBlockHeight = options.lastValidBlockHeight;
+
+    const cleanUp = () => {
+      settled = true;
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
+      if (subscriptionId !== undefined) {
+        connection.removeSignatureListener(subscriptionId).catch(() => {
+          // The subscription is gone either way
+        });
+      }
+    };
+
+    const settle = (result: ConfirmationResult) => {
+      if (settled) return;
+      cleanUp();
+
+      const messages = {
+        confirmed: `Status: ${capitalize(commitment)}`,
+        failed: `Failed: ${result.error}`,
+        expired: 'Blockhash expired before the transaction landed, it will never be confirmed',
+      };
+      createLog({
+        status: result.status === 'confirmed' ? 'success' : 'error',
+        method,
+        message: 'Transaction: ',
+        confirmation,
+        messageTwo: messages[result.status],
+      });
+      resolve(result);
+    };
+
+    const onAbort = () => {
+      if (settled) return;
+      cleanUp();
+
+      createLog({ status: 'warning', method, message: `Stopped tracking transaction ${signature}` });
+      reject(new ConfirmationAbortedError(signature));
+    };
+
+    const poll = async () => {
+      try {
+        const { value } = await connection.getSignatureStatus(signature);
+        if (settled) return;
+
+        if (value?.err) {
+          settle({ signature, status: 'failed', error: JSON.stringify(value.err) });
+          return;
+        }
+        const status = value?.confirmationStatus;
+        if (status && hasReached(status, commitment)) {
+          settle({ signature, status: 'confirmed' });
+          return;
+        }
+        if (status && status !== lastStatus) {
+          lastStatus = status;
+          createLog({
+            status: 'info',
+            method,
+            message: 'Transaction: ',
+            confirmation,
+            messageTwo: `Status: ${capitalize(status)}`,
+          });
+        }
+
+        if (!status) {
+          lastValidBlockHeight ??= (await connection.getLatestBlockhash(commitment)).lastValidBlockHeight;
+          const blockHeight = await connection.getBlockHeight(commitment);
+          if (settled) return;
+          if (blockHeight > lastValidBlockHeight) {
+            settle({ signature, status: 'expired' });
+            return;
+          }
+        }
+      } catch (error) {
+        if (settled) return;
+        createLog({ status: 'warning', method, message: `RPC error while confirming ${signature}: ${error.message}` });
+      }
+
+      // Scheduled only once the previous poll finished, so polls never overlap
+      timeout = setTimeout(poll, pollingInterval);
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+      subscriptionId = connection.onSignature(
+        signature,
+        (result) => {
+          settle(
+            result.err
+              ? { signature, status: 'failed', error: JSON.stringify(result.err) }
+              : { signature, status: 'confirmed' }
+          );
+        },
+        commitment as Commitment
+      );
+    } catch (error) {
+      // Without a websocket, polling alone confirms the transaction
+    }
+
+    createLog({
+      status: 'info',
+      method,
+      message: 'Transaction: ',
+      confirmation,
+      messageTwo: 'Status: Waiting on confirmation...',
+    });
+    poll();
+  });
+};
+
+/**
+ * Tracks several transactions at once, see `trackConfirmation`
+ * @param   {String[]}             signatures transaction signatures
+ * @param   {ConfirmationOptions}  options    shared by every transaction
+ * @returns {ConfirmationResult[]}            the outcomes, in the order of the signatures
+ */
+export const trackConfirmations = (
+  signatures: string[],
+  options: ConfirmationOptions
+): Promise<ConfirmationResult[]> => {
+  return Promise.all(signatures.map((signature) => trackConfirmation(signature, options)));
+};
+
+export default trackConfirmation;
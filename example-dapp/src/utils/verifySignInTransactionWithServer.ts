@@ -0,0 +1,37 @@
+import bs58 from 'bs58';
+import { Transaction } from '@solana/web3.js';
+
+import { SIWS_SERVER_URL } from '../constants';
+import { HttpRequest, SignInVerification } from '../types';
+
+/**
+ * Creates the request verifying a signed sign-in transaction with the sign-in server
+ * @param   {Transaction} transaction the transaction signed by the wallet
+ * @returns {HttpRequest}             the request, e.g. to log it
+ */
+export const createVerifySignInTransactionRequest = (transaction: Transaction): HttpRequest => ({
+  url: `${SIWS_SERVER_URL}/api/verify-transaction`,
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify({ transaction: bs58.encode(transaction.serialize()) }),
+});
+
+/**
+ * Sends a signed sign-in transaction, see `createSignInTransaction`, to the sign-in server for verification.
+ * The server consumes the nonce, so a transaction can only be verified once.
+ * @param   {Transaction}        transaction the transaction signed by the wallet
+ * @returns {SignInVerification}             the verification result
+ * @throws  {Error} when the server fails, rather than rejects the transaction
+ */
+const verifySignInTransactionWithServer = async (transaction: Transaction): Promise<SignInVerification> => {
+  const { url, method, headers, body } = createVerifySignInTransactionRequest(transaction);
+  const response = await fetch(url, { method, headers, body });
+  if (!response.ok && response.status !== 400 && response.status !== 401) {
+    throw new Error(`Failed to verify the sign-in transaction (${response.status})`);
+  }
+
+  const verification: SignInVerification = await response.json();
+  return verification;
+};
+
+export default verifySignInTransactionWithServer;
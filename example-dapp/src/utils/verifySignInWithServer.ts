@@ -0,0 +1,37 @@
+import { SolanaSignInOutput } from '@solana/wallet-standard-features';
+
+import { SIWS_SERVER_URL } from '../constants';
+import { HttpRequest, SignInVerification } from '../types';
+import { serializeSignInOutput } from './serializeSignInOutput';
+
+/**
+ * Creates the request verifying a sign-in output with the sign-in server
+ * @param   {SolanaSignInOutput} output the output returned by the wallet
+ * @returns {HttpRequest}               the request, e.g. to log it
+ */
+export const createVerifySignInRequest = (output: SolanaSignInOutput): HttpRequest => ({
+  url: `${SIWS_SERVER_URL}/api/verify`,
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify({ output: serializeSignInOutput(output) }),
+});
+
+/**
+ * Sends a sign-in output to the sign-in server for verification.
+ * The server consumes the nonce, so an output can only be verified once.
+ * @param   {SolanaSignInOutput} output the output returned by the wallet
+ * @returns {SignInVerification}        the verification result
+ * @throws  {Error} when the server fails, rather than rejects the output
+ */
+const verifySignInWithServer = async (output: SolanaSignInOutput): Promise<SignInVerification> => {
+  const { url, method, headers, body } = createVerifySignInRequest(output);
+  const response = await fetch(url, { method, headers, body });
+  if (!response.ok && response.status !== 400 && response.status !== 401) {
+    throw new Error(`Failed to verify the sign-in (${response.status})`);
+  }
+
+  const verification: SignInVerification = await response.json();
+  return verification;
+};
+
+export default verifySignInWithServer;
@@ -0,0 +1,54 @@
+/**
+ * @jest-environment node
+ */
+import { ed25519 } from '@noble/curves/ed25519';
+import bs58 from 'bs58';
+
+import verifySignedMessage, { encodeBytes, encodeSignedMessage } from './verifySignedMessage';
+
+const secretKey = new Uint8Array(32).fill(1);
+const publicKey = ed25519.getPublicKey(secretKey);
+const message = 'Hello';
+const signature = ed25519.sign(new TextEncoder().encode(message), secretKey);
+
+describe('encodeBytes', () => {
+  const bytes = new Uint8Array([0, 1, 254, 255]);
+
+  it.each([
+    ['hex', '0001feff'],
+    ['base58', bs58.encode(bytes)],
+    ['base64', 'AAH+/w=='],
+  ] as const)('encodes %s', (encoding, encoded) => {
+    expect(encodeBytes(bytes, encoding)).toBe(encoded);
+  });
+
+  it('encodes large inputs as base64', () => {
+    const large = Uint8Array.from({ length: 1024 * 1024 }, (_, i) => i % 256);
+
+    expect(encodeBytes(large, 'base64')).toBe(Buffer.from(large).toString('base64'));
+  });
+});
+
+describe('encodeSignedMessage', () => {
+  it('keeps the message as text for utf8, with base58 bytes', () => {
+    expect(encodeSignedMessage(message, signature, publicKey, 'utf8')).toEqual({
+      message,
+      signature: bs58.encode(signature),
+      publicKey: bs58.encode(publicKey),
+    });
+  });
+
+  it('encodes every field for other encodings', () => {
+    expect(encodeSignedMessage(message, signature, publicKey, 'hex').message).toBe('48656c6c6f');
+  });
+});
+
+describe('verifySignedMessage', () => {
+  it('verifies a signature by the public key', () => {
+    expect(verifySignedMessage(message, signature, publicKey)).toBe(true);
+  });
+
+  it('rejects a signature of another message', () => {
+    expect(verifySignedMessage('Goodbye', signature, publicKey)).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import bs58 from 'bs58';
+import { ed25519 } from '@noble/curves/ed25519';
+
+import { DisplayEncoding } from '../types';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+type Bytes = Uint8Array | string;
+
+export interface EncodedSignedMessage {
+  message: string;
+  signature: string;
+  publicKey: string;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+// Bytes passed to `String.fromCharCode` at once; spreading a large array would overflow the call stack
+const BASE64_CHUNK_SIZE = 0x8000;
+
+const toBytes = (value: Bytes): Uint8Array => (typeof value === 'string' ? new TextEncoder().encode(value) : value);
+
+/**
+ * Encodes bytes for display
+ * @param   {Uint8Array}      bytes    the bytes to encode
+ * @param   {DisplayEncoding} encoding `utf8`, `hex`, `base58` or `base64`
+ * @returns {String}                   the encoded bytes
+ */
+export const encodeBytes = (bytes: Uint8Array, encoding: DisplayEncoding): string => {
+  switch (encoding) {
+    case 'utf8':
+      return new TextDecoder().decode(bytes);
+    case 'hex':
+      return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+    case 'base58':
+      return bs58.encode(bytes);
+    case 'base64': {
+      let binary = '';
+      for (let i = 0; i < bytes.length; i += BASE64_CHUNK_SIZE) {
+        binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + BASE64_CHUNK_SIZE)));
+      }
+      return btoa(binary);
+    }
+  }
+};
+
+/**
+ * Encodes a signed message, its signature and the signer's public key for display or export.
+ * The message is kept as text for `utf8`, every other field is raw bytes.
+ * @param   {Uint8Array|String}    message   the message that was signed
+ * @param   {Uint8Array}           signature the ed25519 signature
+ * @param   {Uint8Array}           publicKey the signer's public key
+ * @param   {DisplayEncoding}      encoding  `hex`, `base58` or `base64`; `utf8` only applies to the message
+ * @returns {EncodedSignedMessage}           the encoded fields
+ */
+export const encodeSignedMessage = (
+  message: Bytes,
+  signature: Uint8Array,
+  publicKey: Uint8Array,
+  encoding: DisplayEncoding
+): EncodedSignedMessage => {
+  const bytesEncoding = encoding === 'utf8' ? 'base58' : encoding;
+  return {
+    message: encodeBytes(toBytes(message), encoding),
+    signature: encodeBytes(signature, bytesEncoding),
+    publicKey: encodeBytes(publicKey, bytesEncoding),
+  };
+};
+
+// =============================================================================
+// Main Function
+// =============================================================================
+
+/**
+ * Verifies an ed25519 message signature offline
+ * @param   {Uint8Array|String} message   the message that was signed, as bytes or text
+ * @param   {Uint8Array}        signature the signature returned by the wallet
+ * @param   {Uint8Array}        publicKey the public key of the account that signed
+ * @returns {Boolean}                     true if the signature is valid for the message and key
+ */
+const verifySignedMessage = (message: Bytes, signature: Uint8Array, publicKey: Uint8Array): boolean => {
+  try {
+    return ed25519.verify(signature, toBytes(message), publicKey);
+  } catch (error) {
+    // Malformed signatures and keys are invalid rather than exceptional
+    return false;
+  }
+};
+
+export default verifySignedMessage;
@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ */
+import { webcrypto } from 'crypto';
+import { Keypair } from '@solana/web3.js';
+import { SolanaSignInInput, SolanaSignInOutput } from '@solana/wallet-standard-features';
+
+import { MOCK_WALLET_SEED, MockWallet, MockWalletBehavior } from '../mocks/MockWallet';
+import { SignInReportOptions } from './createSignInReport';
+import runCompatibilityCheck, { COMPATIBILITY_CASES, createCompatibilityInput } from './walletCompatibility';
+
+// The browser's Web Crypto, which Jest's node environment does not expose as a global
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto });
+
+const expected: SignInReportOptions = {
+  domain: 'localhost:3000',
+  origin: 'http://localhost:3000',
+  chainId: 'solana:devnet',
+};
+
+const connect = (behavior: MockWalletBehavior = 'approve') => {
+  const wallet = new MockWallet({ behavior });
+  const [account] = wallet.accounts;
+
+  return {
+    wallet: 'Mock Wallet',
+    publicKey: Keypair.fromSeed(MOCK_WALLET_SEED).publicKey.toBytes(),
+    signIn: async (input: SolanaSignInInput): Promise<SolanaSignInOutput> => {
+      const [output] = await wallet.features['solana:signIn'].signIn(input);
+      return output;
+    },
+    signMessage: async (message: Uint8Array): Promise<Uint8Array> => {
+      const [output] = await wallet.features['solana:signMessage'].signMessage({ account, message });
+      return output.signature;
+    },
+  };
+};
+
+describe('createCompatibilityInput', () => {
+  it('creates an input for the expected domain, origin and chain with a fresh nonce', () => {
+    const input = createCompatibilityInput(expected);
+
+    expect(input).toMatchObject({ domain: 'localhost:3000', uri: 'http://localhost:3000', chainId: 'solana:devnet' });
+    expect(input.nonce).toMatch(/^[0-9a-f]{32}$/);
+    expect(createCompatibilityInput(expected).nonce).not.toBe(input.nonce);
+  });
+});
+
+describe('runCompatibilityCheck', () => {
+  it('runs every case locally, without the sign-in server', async () => {
+    // The mock wallet fills an empty input in from `window.location`, which the node environment lacks
+    const cases = COMPATIBILITY_CASES.filter(({ id }) => id !== 'empty');
+    const createInput = jest.fn(async () => createCompatibilityInput(expected));
+    const report = await runCompatibilityCheck({ ...connect(), expected, cases });
+    await runCompatibilityCheck({ ...connect(), expected, cases: cases.slice(0, 2), createInput });
+
+    expect(report.cases.map(({ id }) => id)).toEqual(cases.map(({ id }) => id));
+    expect(report.signMessage).toEqual({ outcome: 'signed', signatureValid: true });
+    expect(report.summary).toMatchObject({ signed: cases.length, rejected: 0 });
+    expect(new Set(report.cases.map(({ input }) => input.nonce)).size).toBe(cases.length);
+    expect(createInput).toHaveBeenCalledTimes(2);
+  });
+
+  it('records a standard sign-in that passes every check', async () => {
+    const report = await runCompatibilityCheck({ ...connect(), expected, cases: COMPATIBILITY_CASES.slice(0, 1) });
+    const [standard] = report.cases;
+
+    expect(standard).toMatchObject({ outcome: 'signed', signatureValid: true, dropped: [], changed: [] });
+    expect(standard.failedChecks).toEqual([]);
+  });
+
+  it('records the fields a wallet changed and the checks that failed', async () => {
+    const report = await runCompatibilityCheck({
+      ...connect('alterDomain'),
+      expected,
+      cases: COMPATIBILITY_CASES.slice(0, 1),
+    });
+
+    expect(report.cases[0].changed).toContain('domain');
+    expect(report.cases[0].failedChecks).toContain('domain');
+    expect(report.summary.honored).toBe(0);
+  });
+
+  it('records the cases a wallet rejected', async () => {
+    const report = await runCompatibilityCheck({ ...connect('reject'), expected });
+
+    expect(report.signMessage.outcome).toBe('rejected');
+    expect(report.summary).toMatchObject({ signed: 0, rejected: COMPATIBILITY_CASES.length });
+  });
+});
@@ -0,0 +1,261 @@
+import { SolanaSignInInput, SolanaSignInOutput } from '@solana/wallet-standard-features';
+
+import { SignInCheckName } from '../types';
+import createSignInInput from './createSignInInput';
+import createSignInReport, { SignInReportOptions } from './createSignInReport';
+import inspectSignIn, { SignInFieldInspection } from './inspectSignIn';
+import { SignInMessageField } from './signInMessage';
+import verifySignedMessage, { encodeBytes } from './verifySignedMessage';
+
+// =============================================================================
+// Typedefs
+// =============================================================================
+
+export interface CompatibilityCase {
+  id: string;
+  name: string;
+  description: string;
+  /**
+   * Turns a legitimate input into the one passed to the wallet
+   * @param {SolanaSignInInput} input   a legitimate input, e.g. from the sign-in server
+   * @param {String}            address the connected account
+   */
+  createInput: (input: SolanaSignInInput, address: string) => SolanaSignInInput;
+}
+
+export interface CompatibilityCaseResult {
+  id: string;
+  name: string;
+  /** `rejected` if the wallet threw instead of signing */
+  outcome: 'signed' | 'rejected';
+  error?: string;
+  input: SolanaSignInInput;
+  /** Fields signed exactly as requested */
+  honored: SignInMessageField[];
+  /** Fields the wallet filled in although they were not requested */
+  added: SignInMessageField[];
+  /** Requested fields missing from the signed message */
+  dropped: SignInMessageField[];
+  /** Requested fields signed with another value */
+  changed: SignInMessageField[];
+  fields: SignInFieldInspection[];
+  /** Set when the signed message could not be parsed */
+  parseError?: string;
+  signatureValid?: boolean;
+  /** Verifier checks that failed */
+  failedChecks: SignInCheckName[];
+}
+
+export interface CompatibilityReport {
+  wallet: string;
+  /** ISO 8601 time the run started */
+  createdAt: string;
+  signMessage: { outcome: 'signed' | 'rejected' | 'unsupported'; signatureValid?: boolean; error?: string };
+  cases: CompatibilityCaseResult[];
+  /** `honored` counts the signed cases where no requested field was dropped or changed */
+  summary: { signed: number; rejected: number; honored: number };
+}
+
+export interface CompatibilityRunnerOptions {
+  /** Name of the wallet, recorded in the report */
+  wallet: string;
+  /** Public key of the connected account, to verify `signMessage` signatures */
+  publicKey: Uint8Array;
+  /**
+   * Returns a legitimate input for every case. Defaults to `createCompatibilityInput`, built locally, as no signed
+   * output is sent to the server and a nonce it issued would never be consumed.
+   */
+  createInput?: () => Promise<SolanaSignInInput>;
+  signIn: (input: SolanaSignInInput) => Promise<SolanaSignInOutput>;
+  /** Omitted when the wallet does not support `signMessage` */
+  signMessage?: (message: Uint8Array) => Promise<Uint8Array>;
+  /** What the verifier checks against */
+  expected: SignInReportOptions;
+  /** Defaults to `COMPATIBILITY_CASES` */
+  cases?: CompatibilityCase[];
+}
+
+// =============================================================================
+// Cases
+// =============================================================================
+
+const COMPATIBILITY_MESSAGE = 'Wallet compatibility check: this message only tests signMessage.';
+
+const COMPATIBILITY_STATEMENT = 'Wallet compatibility check: this sign-in is never sent to a server.';
+
+const HOUR = 60 * 60 * 1000;
+
+export const COMPATIBILITY_CASES: CompatibilityCase[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    description: 'The input as issued by the sign-in server',
+    createInput: (input) => input,
+  },
+  {
+    id: 'empty',
+    name: 'Empty input',
+    description: 'No fields at all, so the wallet must fill in everything it needs',
+    createInput: () => ({}),
+  },
+  {
+    id: 'with-address',
+    name: 'With address',
+    description: 'The address of the connected account is requested explicitly',
+    createInput: (input, address) => ({ ...input, address }),
+  },
+  {
+    id: 'no-statement',
+    name: 'No statement',
+    description: 'The optional statement is left out',
+    createInput: ({ statement, ...input }) => input,
+  },
+  {
+    id: 'unicode-statement',
+    name: 'Unicode statement',
+    description: 'The statement contains non-ASCII characters',
+    createInput: (input) => ({ ...input, statement: 'Sign in to Ünïcödé ✓ — 登录' }),
+  },
+  {
+    id: 'all-optional-fields',
+    name: 'All optional fields',
+    description: 'Request ID and notBefore are set on top of the standard fields',
+    createInput: (input) => ({ ...input, requestId: 'compatibility-check', notBefore: input.issuedAt }),
+  },
+  {
+    id: 'many-resources',
+    name: 'Many resources',
+    description: 'Five resources are requested',
+    createInput: (input) => ({
+      ...input,
+      resources: Array.from({ length: 5 }, (_, i) => `https://example.com/resource/${i + 1}`),
+    }),
+  },
+  {
+    id: 'unknown-chain',
+    name: 'Unknown chain',
+    description: 'The chain id is not a Solana cluster; the wallet should refuse',
+    createInput: (input) => ({ ...input, chainId: 'solana:unknownnet' }),
+  },
+  {
+    id: 'long-expiry',
+    name: 'Long expiry',
+    description: 'The sign-in only expires in a week',
+    createInput: (input) => ({
+      ...input,
+      expirationTime: new Date(Date.parse(input.issuedAt ?? new Date().toISOString()) + 7 * 24 * HOUR).toISOString(),
+    }),
+  },
+];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Creates a legitimate sign-in input with a random nonce, without the sign-in server
+ * @param   {SignInReportOptions} expected what the verifier checks against, for the domain, origin and chain
+ * @returns {SolanaSignInInput}            an input like the server's, whose nonce no server will accept
+ */
+export const createCompatibilityInput = (expected: SignInReportOptions): SolanaSignInInput => {
+  return createSignInInput({
+    domain: expected.domain,
+    uri: expected.origin ?? `https://${expected.domain}`,
+    statement: COMPATIBILITY_STATEMENT,
+    chainId: expected.chainId,
+    nonce: encodeBytes(crypto.getRandomValues(new Uint8Array(16)), 'hex'),
+    issuedAt: new Date(),
+    expiresIn: '10m',
+  });
+};
+
+const fieldsWith = (fields: SignInFieldInspection[], change: SignInFieldInspection['change']): SignInMessageField[] => {
+  return fields.filter((field) => field.change === change).map(({ field }) => field);
+};
+
+const runCase = async (
+  compatibilityCase: CompatibilityCase,
+  options: CompatibilityRunnerOptions
+): Promise<CompatibilityCaseResult> => {
+  const legitimate = options.createInput ? await options.createInput() : createCompatibilityInput(options.expected);
+  const input = compatibilityCase.createInput(legitimate, encodeBytes(options.publicKey, 'base58'));
+  const result = { id: compatibilityCase.id, name: compatibilityCase.name, input };
+
+  let output: SolanaSignInOutput;
+  try {
+    output = await options.signIn(input);
+  } catch (error) {
+    return {
+      ...result,
+      outcome: 'rejected',
+      error: error.message,
+      honored: [],
+      added: [],
+      dropped: [],
+      changed: [],
+      fields: [],
+      failedChecks: [],
+    };
+  }
+
+  const inspection = inspectSignIn(input, output);
+  const report = createSignInReport(input, output, options.expected);
+  return {
+    ...result,
+    outcome: 'signed',
+    honored: fieldsWith(inspection.fields, 'unchanged'),
+    added: fieldsWith(inspection.fields, 'added'),
+    dropped: fieldsWith(inspection.fields, 'dropped'),
+    changed: fieldsWith(inspection.fields, 'changed'),
+    fields: inspection.fields,
+    parseError: inspection.parseError,
+    signatureValid: inspection.signatureValid,
+    failedChecks: report.checks.filter(({ passed }) => !passed).map(({ name }) => name),
+  };
+};
+
+const runSignMessage = async (options: CompatibilityRunnerOptions): Promise<CompatibilityReport['signMessage']> => {
+  if (!options.signMessage) return { outcome: 'unsupported' };
+
+  const message = new TextEncoder().encode(COMPATIBILITY_MESSAGE);
+  try {
+    const signature = await options.signMessage(message);
+    return { outcome: 'signed', signatureValid: verifySignedMessage(message, signature, options.publicKey) };
+  } catch (error) {
+    return { outcome: 'rejected', error: error.message };
+  }
+};
+
+// =============================================================================
+// Main Function
+// =============================================================================
+
+/**
+ * Runs a battery of sign-in inputs against a wallet, one at a time, and records how it treated each field
+ * @param   {CompatibilityRunnerOptions} options the wallet's methods and what the verifier checks against
+ * @returns {CompatibilityReport}                a JSON-serializable report
+ */
+const runCompatibilityCheck = async (options: CompatibilityRunnerOptions): Promise<CompatibilityReport> => {
+  const createdAt = new Date().toISOString();
+  const signMessage = await runSignMessage(options);
+
+  const cases: CompatibilityCaseResult[] = [];
+  for (const compatibilityCase of options.cases ?? COMPATIBILITY_CASES) {
+    cases.push(await runCase(compatibilityCase, options));
+  }
+
+  return {
+    wallet: options.wallet,
+    createdAt,
+    signMessage,
+    cases,
+    summary: {
+      signed: cases.filter(({ outcome }) => outcome === 'signed').length,
+      rejected: cases.filter(({ outcome }) => outcome === 'rejected').length,
+      honored: cases.filter(({ outcome, dropped, changed }) => outcome === 'signed' && !dropped.length && !changed.length)
+        .length,
+    },
+  };
+};
+
+export default runCompatibilityCheck;